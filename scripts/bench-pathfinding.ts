@@ -0,0 +1,173 @@
+/**
+ * Pathfinding benchmark
+ * ---------------------
+ * Times the searches the game runs while a frame is drawn or a turn is planned:
+ * - hover: every frame the cursor lands on another tile (any floor) of a large seeded
+ *   map (random walls, stairs between floors) and the survivor's route is previewed
+ *   with PREVIEW_NODE_BUDGET; a preview that runs out only heads towards the tile
+ * - attack: every frame the cursor lands on another enemy and the survivor's paths to
+ *   its free melee tiles share the same budget
+ * - enemy turn: planEnemyTurn on generated villages with every enemy chasing the
+ *   survivor (enemies follow per-turn Dijkstra maps, not A*)
+ * Each case reports its worst frame (or turn) against the 60 fps frame budget.
+ *
+ * Usage: npm run bench:pathfinding -- [size=200] [enemies=48] [frames=200] [budget=PREVIEW_NODE_BUDGET]
+ */
+import { planEnemyTurn } from '../src/core/ai';
+import { getMeleeTiles } from '../src/core/combat';
+import { createGameState } from '../src/core/engine';
+import { findPath, PREVIEW_NODE_BUDGET } from '../src/core/pathfinding';
+import { PRNG } from '../src/core/rng';
+import { createTile } from '../src/core/tiles';
+import type { Coordinate, FloorData, GameState, Tile, Unit } from '../src/core/types';
+
+const args = process.argv.slice(2);
+const size = Number(args[0] ?? 200);
+const enemyCount = Number(args[1] ?? 48);
+const frames = Number(args[2] ?? 200);
+const nodeBudget = Number(args[3] ?? PREVIEW_NODE_BUDGET);
+
+const FLOORS = 2;
+const WALL_CHANCE = 0.2;
+const STAIRS = 8;
+const FRAME_BUDGET_MS = 1000 / 60;
+const WARMUP_FRAMES = 20; // Untimed, while the JIT settles
+const VILLAGES = 20; // Seeds of the enemy turn case
+
+const report = (line: string) => process.stdout.write(`${line}\n`);
+
+const buildMap = (rng: PRNG): FloorData => {
+    const floor: FloorData = [];
+    for (let z = 0; z < FLOORS; z++) {
+        const level: Tile[][] = [];
+        for (let x = 0; x < size; x++) {
+            const row: Tile[] = [];
+            for (let y = 0; y < size; y++) {
+                row.push(createTile(rng.next() < WALL_CHANCE ? 'WALL' : 'CONCRETE', { x, y, floor: z }));
+            }
+            level.push(row);
+        }
+        floor.push(level);
+    }
+
+    for (let i = 0; i < STAIRS; i++) {
+        const x = rng.range(0, size - 1);
+        const y = rng.range(0, size - 1);
+        for (let z = 0; z < FLOORS - 1; z++) {
+            floor[z][x][y] = createTile('STAIRS_UP', { x, y, floor: z });
+            floor[z + 1][x][y] = createTile('STAIRS_DOWN', { x, y, floor: z + 1 });
+        }
+    }
+    return floor;
+};
+
+const randomWalkable = (floor: FloorData, rng: PRNG): Coordinate => {
+    while (true) {
+        const at = { x: rng.range(0, size - 1), y: rng.range(0, size - 1), floor: rng.range(0, FLOORS - 1) };
+        if (floor[at.floor][at.x][at.y].metadata.walkable) return at;
+    }
+};
+
+const createUnits = (floor: FloorData, rng: PRNG): Unit[] =>
+    Array.from({ length: enemyCount + 1 }, (_, i) => ({
+        id: i === 0 ? 'player-1' : `enemy-${i}`,
+        type: i === 0 ? 'PLAYER' : 'ENEMY',
+        faction: i === 0 ? 'PLAYER' : 'ENEMY',
+        name: i === 0 ? 'Survivor' : 'Biter',
+        position: randomWalkable(floor, rng),
+        facing: 'DOWN',
+        status: { hp: 10, maxHp: 10, ap: 5, maxAp: 5, apRecovery: 5, sightRange: 8, isInjured: false, noiseLevel: 3 },
+    }));
+
+const rng = new PRNG(1234);
+const floor = buildMap(rng);
+const units = createUnits(floor, rng);
+const survivor = units[0];
+const enemies = units.slice(1);
+
+const isAt = (a: Coordinate, b: Coordinate) => a.x === b.x && a.y === b.y && a.floor === b.floor;
+
+const summarize = (label: string, times: number[], details: string[]) => {
+    const total = times.reduce((a, b) => a + b, 0);
+    const worst = Math.max(...times);
+
+    report('');
+    report(`[${label}]`);
+    details.forEach(report);
+    report(`Avg:              ${(total / times.length).toFixed(2)} ms`);
+    report(`Worst:            ${worst.toFixed(2)} ms (budget ${FRAME_BUDGET_MS.toFixed(1)} ms at 60 fps: ${worst <= FRAME_BUDGET_MS ? 'OK' : 'OVER'})`);
+};
+
+// Runs one frame per call after the warmup and returns the frame times
+const time = (frame: () => void, count: number): number[] => {
+    for (let i = 0; i < WARMUP_FRAMES; i++) frame();
+    return Array.from({ length: count }, () => {
+        const t0 = performance.now();
+        frame();
+        return performance.now() - t0;
+    });
+};
+
+const runHover = () => {
+    let cutShort = 0;
+    let unreachable = 0;
+    const times = time(() => {
+        const hovered = randomWalkable(floor, rng);
+        const path = findPath(survivor.position, hovered, floor, units, survivor.id, { maxExpansions: nodeBudget });
+        if (!path) unreachable++;
+        else if (!isAt(path[path.length - 1], hovered)) cutShort++;
+    }, frames);
+    summarize('hover preview, any tile', times, [
+        `Previews:         ${frames} (${cutShort} cut short, ${unreachable} unreachable)`,
+        `Node budget:      ${nodeBudget} per preview`,
+    ]);
+};
+
+const runAttack = () => {
+    let searches = 0;
+    let reached = 0;
+    const times = time(() => {
+        const target = enemies[rng.range(0, enemies.length - 1)];
+        const tiles = getMeleeTiles(floor, target, units.filter(u => u.id !== survivor.id));
+        const maxExpansions = Math.ceil(nodeBudget / Math.max(1, tiles.length));
+        tiles.forEach(tile => {
+            const path = findPath(survivor.position, tile, floor, units, survivor.id, { allowClimb: false, maxExpansions });
+            searches++;
+            if (path && isAt(path[path.length - 1], tile)) reached++;
+        });
+    }, frames);
+    summarize('attack preview, melee tiles', times, [
+        `Searches:         ${searches} (${reached} reached the enemy)`,
+        `Node budget:      ${nodeBudget} per preview, shared by the melee tiles`,
+    ]);
+};
+
+// Every enemy knows where the survivor is
+const alertVillage = (seed: number): GameState => {
+    const state = createGameState(seed);
+    const player = Object.values(state.units).find(u => u.type === 'PLAYER')!;
+    const alerted = Object.values(state.units).map(u => u.type === 'ENEMY'
+        ? { ...u, memory: { state: 'CHASE' as const, lastKnownTargetPos: { ...player.position } } }
+        : u);
+    return { ...state, units: Object.fromEntries(alerted.map(u => [u.id, u])) };
+};
+
+const runEnemyTurn = () => {
+    const villages = Array.from({ length: VILLAGES }, (_, i) => alertVillage(i + 1));
+    let actions = 0;
+    let turn = 0;
+    const times = time(() => {
+        const state = villages[turn++ % villages.length];
+        actions += planEnemyTurn(state, new PRNG(turn)).actions.length;
+    }, VILLAGES);
+    const village = villages[0].floor;
+    summarize('enemy turn, generated villages', times, [
+        `Turns:            ${VILLAGES} (${village[0].length}x${village[0][0].length} x ${village.length} floors, ${actions} actions incl. warmup)`,
+    ]);
+};
+
+report(`Map:              ${size}x${size} x ${FLOORS} floors, ${enemyCount} enemies`);
+
+runHover();
+runAttack();
+runEnemyTurn();
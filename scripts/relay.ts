@@ -0,0 +1,130 @@
+/**
+ * Lockstep relay
+ * --------------
+ * A tiny WebSocket relay for local multiplayer. It only routes messages; the game is
+ * run by the browsers (see src/core/netProtocol.ts):
+ * - messages that do not match the protocol are answered with an ERROR and dropped,
+ * - the first client to join a room is its host,
+ * - game messages from the host go to every other member of the room,
+ * - game messages from anyone else go to the host,
+ * - the room hears when someone joins or leaves, and closes when the host leaves.
+ *
+ * Usage: npm run relay -- [port=8787]
+ */
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import { DEFAULT_RELAY_PORT, isHostMessage, readClientMessage } from '../src/core/netProtocol';
+import type { ClientMessage, ServerMessage } from '../src/core/netProtocol';
+
+const port = Number(process.argv[2] ?? DEFAULT_RELAY_PORT);
+
+type Member = { id: string; socket: WebSocket };
+type Room = { hostId: string; members: Map<string, Member> };
+
+const rooms = new Map<string, Room>();
+let nextClientId = 1;
+
+const report = (line: string) => process.stdout.write(`${line}\n`);
+
+const send = (member: Member, message: ServerMessage) => {
+    if (member.socket.readyState === member.socket.OPEN) member.socket.send(JSON.stringify(message));
+};
+
+// The reason is sent back to the client as an ERROR
+const parse = (data: unknown): ClientMessage | string => {
+    let json: unknown;
+    try {
+        json = JSON.parse(String(data));
+    } catch {
+        return 'Message is not valid JSON';
+    }
+    try {
+        return readClientMessage(json);
+    } catch (err) {
+        return (err as Error).message;
+    }
+};
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', socket => {
+    const member: Member = { id: `client-${nextClientId++}`, socket };
+    let roomName: string | null = null;
+
+    socket.on('message', data => {
+        const message = parse(data);
+        if (typeof message === 'string') {
+            send(member, { type: 'ERROR', reason: message });
+            return;
+        }
+
+        if (message.type === 'JOIN') {
+            if (roomName) {
+                send(member, { type: 'ERROR', reason: `Already in room ${roomName}` });
+                return;
+            }
+            roomName = message.room;
+            let room = rooms.get(roomName);
+            if (!room) {
+                room = { hostId: member.id, members: new Map() };
+                rooms.set(roomName, room);
+            }
+            room.members.forEach(other => send(other, { type: 'PEER_JOINED', clientId: member.id }));
+            send(member, { type: 'WELCOME', clientId: member.id, hostId: room.hostId, peers: [...room.members.keys()] });
+            room.members.set(member.id, member);
+            report(`${member.id} joined ${roomName}${room.hostId === member.id ? ' (host)' : ''}`);
+            return;
+        }
+
+        const room = roomName ? rooms.get(roomName) : undefined;
+        if (!room) {
+            send(member, { type: 'ERROR', reason: 'Join a room first' });
+            return;
+        }
+
+        const isHost = member.id === room.hostId;
+        if (isHostMessage(message.message) !== isHost) {
+            send(member, { type: 'ERROR', reason: `${message.message.type} can only be sent by ${isHost ? 'a client' : 'the host'}` });
+            return;
+        }
+
+        const forward: ServerMessage = { type: 'GAME', from: member.id, message: message.message };
+        if (isHost) {
+            room.members.forEach(other => {
+                if (other.id !== member.id) send(other, forward);
+            });
+        } else {
+            const host = room.members.get(room.hostId);
+            if (host) send(host, forward);
+        }
+    });
+
+    // A broken connection only drops that player (it is closed right after)
+    socket.on('error', err => report(`${member.id}: ${err.message}`));
+
+    socket.on('close', () => {
+        const room = roomName ? rooms.get(roomName) : undefined;
+        if (!room) return;
+
+        room.members.delete(member.id);
+        room.members.forEach(other => send(other, { type: 'PEER_LEFT', clientId: member.id }));
+        report(`${member.id} left ${roomName}`);
+
+        // Nobody can run the game without its host
+        if (member.id === room.hostId) {
+            room.members.forEach(other => other.socket.close());
+            rooms.delete(roomName!);
+            report(`Room ${roomName} closed`);
+        } else if (room.members.size === 0) {
+            rooms.delete(roomName!);
+        }
+    });
+});
+
+server.on('listening', () => report(`Relay listening on ws://localhost:${port}`));
+
+// Typically the port being taken by another relay
+server.on('error', err => {
+    process.stderr.write(`Relay cannot listen on port ${port}: ${err.message}\n`);
+    process.exit(1);
+});
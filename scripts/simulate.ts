@@ -0,0 +1,95 @@
+/**
+ * Headless balancing run
+ * ----------------------
+ * Plays many seeded games with the pure engine (no React, no timers) and prints
+ * survival statistics. Every survivor of the squad follows a trivial policy (a short
+ * random walk every turn) so the numbers reflect enemy pressure only. A game is lost
+ * when the whole squad is dead.
+ *
+ * Usage: npm run simulate -- [games=100] [turns=50] [--verbose]
+ * (--verbose prints every enemy's behavior-tree trace each turn)
+ */
+import { createGameState, simulateTurn } from '../src/core/engine';
+import { findPath } from '../src/core/pathfinding';
+import { getKeys } from '../src/core/items';
+import { PRNG } from '../src/core/rng';
+import { getCommandableSquad, getSquad, isSquadWipedOut } from '../src/core/squad';
+import type { ActionRequest, GameState, Unit } from '../src/core/types';
+
+const args = process.argv.slice(2).filter(a => !a.startsWith('--'));
+const games = Number(args[0] ?? 100);
+const maxTurns = Number(args[1] ?? 50);
+
+const verbose = process.argv.includes('--verbose');
+const report = (line: string) => process.stdout.write(`${line}\n`);
+
+const WALK_RADIUS = 3;
+
+const randomWalk = (state: GameState, player: Unit, rng: PRNG): ActionRequest[] => {
+    const target = {
+        x: player.position.x + rng.range(-WALK_RADIUS, WALK_RADIUS),
+        y: player.position.y + rng.range(-WALK_RADIUS, WALK_RADIUS),
+        floor: player.position.floor
+    };
+    const path = findPath(player.position, target, state.floor, Object.values(state.units), player.id, { allowClimb: false, keys: getKeys(player) });
+    if (!path || path.length < 2) return [];
+
+    // Walk as far as the AP budget allows
+    let cost = 0;
+    let reach = 0;
+    for (let i = 1; i < path.length; i++) {
+        const diagonal = path[i].x !== path[i - 1].x && path[i].y !== path[i - 1].y;
+        const step = diagonal ? 1.5 : 1.0;
+        if (cost + step > player.status.ap) break;
+        cost += step;
+        reach = i;
+    }
+    if (reach === 0) return [];
+
+    return [{ type: 'MOVE', unitId: player.id, target: path[reach], cost, status: 'QUEUED' }];
+};
+
+let deaths = 0;
+let survivorDeaths = 0;
+let totalTurnsSurvived = 0;
+let totalDamageTaken = 0;
+let totalEvents = 0;
+
+const started = performance.now();
+
+for (let seed = 1; seed <= games; seed++) {
+    let state = { ...createGameState(seed), debugAi: verbose };
+    const squadSize = getSquad(state.units).length;
+    if (squadSize === 0) continue;
+    const policyRng = new PRNG(seed);
+
+    let turn = 0;
+    for (; turn < maxTurns; turn++) {
+        const orders = getCommandableSquad(state).flatMap(survivor => randomWalk(state, survivor, policyRng));
+        const result = simulateTurn(state, orders);
+        const squad = new Set(getSquad(state.units).map(u => u.id));
+        state = result.state;
+        totalEvents += result.events.length;
+        totalDamageTaken += result.events
+            .filter(e => e.type === 'DAMAGE' && squad.has(e.unitId))
+            .reduce((sum, e) => sum + (e.type === 'DAMAGE' ? e.amount : 0), 0);
+
+        if (isSquadWipedOut(state.units)) {
+            deaths++;
+            break;
+        }
+    }
+    totalTurnsSurvived += turn;
+    survivorDeaths += squadSize - getSquad(state.units).length;
+}
+
+const elapsed = performance.now() - started;
+const turnsRun = totalTurnsSurvived + deaths;
+
+report(`Games:              ${games} x ${maxTurns} turns`);
+report(`Squads wiped out:   ${deaths}`);
+report(`Survivors lost:     ${survivorDeaths}`);
+report(`Avg turns survived: ${(totalTurnsSurvived / games).toFixed(1)}`);
+report(`Avg damage taken:   ${(totalDamageTaken / games).toFixed(1)}`);
+report(`Events resolved:    ${totalEvents}`);
+report(`Time:               ${elapsed.toFixed(0)} ms (${(elapsed / Math.max(1, turnsRun)).toFixed(2)} ms/turn)`);
@@ -0,0 +1,320 @@
+import React, { useMemo, useRef, useState } from 'react';
+import classNames from 'classnames';
+import {
+    addFloor, createBlankDocument, downloadDocument, eraseStairs, getUnitAt, paintTile, parseDocument,
+    placeStairs, placeUnit, removeTopFloor, removeUnitAt, setTileMetadata, toMapFile, updateUnit, validateDocument
+} from '../../core/editor';
+import type { AIMemory, Coordinate, EditorDocument, EnemyArchetypeId, MapFile, TileMetadata, TileType, Unit } from '../../core/types';
+import { ENEMY_ARCHETYPES } from '../../core/enemies';
+import gridStyles from '../GridRenderer/GridRenderer.module.css';
+import styles from './LevelEditor.module.css';
+
+type EditorTool = TileType | 'STAIRS_PAIR' | 'PLAYER' | 'ENEMY' | 'ERASE_UNIT' | 'INSPECT';
+
+const PAINT_TOOLS: { tool: EditorTool; label: string }[] = [
+    { tool: 'CONCRETE', label: 'Concrete' },
+    { tool: 'FLOOR', label: 'Floor' },
+    { tool: 'DOOR', label: 'Door' },
+    { tool: 'WALL', label: 'Wall' },
+    { tool: 'MUD', label: 'Mud' },
+    { tool: 'EMPTY', label: 'Empty' },
+    { tool: 'STAIRS_PAIR', label: 'Stairs' },
+];
+
+const UNIT_TOOLS: { tool: EditorTool; label: string }[] = [
+    { tool: 'PLAYER', label: 'Survivor' },
+    { tool: 'ENEMY', label: 'Enemy' },
+    { tool: 'ERASE_UNIT', label: 'Erase Unit' },
+    { tool: 'INSPECT', label: 'Inspect' },
+];
+
+const ARCHETYPES = Object.keys(ENEMY_ARCHETYPES) as EnemyArchetypeId[];
+const AI_STATES: AIMemory['state'][] = ['IDLE', 'SLEEP', 'WANDER', 'SEARCH'];
+const FACINGS: Unit['facing'][] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+const NEW_MAP_SIZE = { width: 16, height: 16 };
+
+// Tools that keep painting while the mouse is dragged over the grid
+const isDragTool = (tool: EditorTool) => PAINT_TOOLS.some(t => t.tool === tool && tool !== 'STAIRS_PAIR') || tool === 'ERASE_UNIT';
+
+interface LevelEditorProps {
+    document: EditorDocument;
+    onChange: (doc: EditorDocument) => void;
+    onPlaytest: (map: MapFile) => void;
+    onClose: () => void;
+}
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ document: doc, onChange, onPlaytest, onClose }) => {
+    const [tool, setTool] = useState<EditorTool>('WALL');
+    const [enemyState, setEnemyState] = useState<AIMemory['state']>('IDLE');
+    const [archetype, setArchetype] = useState<EnemyArchetypeId>('BITER');
+    const [viewFloor, setViewFloor] = useState(0);
+    const [selected, setSelected] = useState<Coordinate | null>(null);
+    const [isPainting, setIsPainting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const currentZ = Math.min(viewFloor, doc.floor.length - 1);
+    const currentFloor = doc.floor[currentZ];
+    const errors = useMemo(() => validateDocument(doc), [doc]);
+
+    const selectedTile = selected && selected.floor < doc.floor.length ? doc.floor[selected.floor][selected.x][selected.y] : null;
+    const selectedUnit = selected ? getUnitAt(doc, selected) : undefined;
+
+    const applyTool = (at: Coordinate) => {
+        const current = doc.floor[at.floor][at.x][at.y].type;
+        const isStairs = current === 'STAIRS_UP' || current === 'STAIRS_DOWN';
+
+        switch (tool) {
+            case 'STAIRS_PAIR':
+                onChange(placeStairs(doc, at));
+                break;
+            case 'PLAYER':
+            case 'ENEMY':
+                onChange(placeUnit(doc, at, tool, enemyState, archetype));
+                break;
+            case 'ERASE_UNIT':
+                onChange(removeUnitAt(doc, at));
+                break;
+            case 'INSPECT':
+                setSelected(at);
+                break;
+            default:
+                // Painting over either end of a staircase removes the whole pair
+                onChange(isStairs ? eraseStairs(doc, at, tool) : paintTile(doc, at, tool));
+        }
+    };
+
+    const handleMouseDown = (at: Coordinate) => {
+        if (isDragTool(tool)) setIsPainting(true);
+        applyTool(at);
+    };
+
+    const handleMouseEnter = (at: Coordinate) => {
+        if (isPainting && isDragTool(tool)) applyTool(at);
+    };
+
+    const handleMetadataChange = (key: keyof TileMetadata, value: number | boolean | string | undefined) => {
+        if (!selected) return;
+        onChange(setTileMetadata(doc, selected, { [key]: value }));
+    };
+
+    const handleRemoveFloor = () => {
+        if (!confirm(`Remove floor ${doc.floor.length}F and everything on it?`)) return;
+        onChange(removeTopFloor(doc));
+    };
+
+    const handleNew = () => {
+        if (!confirm('Discard the current level?')) return;
+        onChange(createBlankDocument(NEW_MAP_SIZE.width, NEW_MAP_SIZE.height));
+        setViewFloor(0);
+        setSelected(null);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            onChange(parseDocument(await file.text()));
+            setViewFloor(0);
+            setSelected(null);
+        } catch (err) {
+            alert(`Failed to load level: ${(err as Error).message}`);
+        }
+    };
+
+    return (
+        <div className={styles.editor} onMouseUp={() => setIsPainting(false)} onMouseLeave={() => setIsPainting(false)}>
+            <div className={styles.panel}>
+                <div className={styles.header}>LEVEL EDITOR</div>
+
+                <input
+                    className={styles.nameInput}
+                    value={doc.name}
+                    onChange={e => onChange({ ...doc, name: e.target.value })}
+                    placeholder="Level name"
+                />
+
+                <div className={styles.section}>Tiles</div>
+                <div className={styles.toolGrid}>
+                    {PAINT_TOOLS.map(({ tool: t, label }) => (
+                        <button key={t} className={classNames(styles.toolButton, { [styles.active]: tool === t })} onClick={() => setTool(t)}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className={styles.section}>Units</div>
+                <div className={styles.toolGrid}>
+                    {UNIT_TOOLS.map(({ tool: t, label }) => (
+                        <button key={t} className={classNames(styles.toolButton, { [styles.active]: tool === t })} onClick={() => setTool(t)}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {tool === 'ENEMY' && (
+                    <>
+                        <label className={styles.field}>
+                            Archetype
+                            <select value={archetype} onChange={e => setArchetype(e.target.value as EnemyArchetypeId)}>
+                                {ARCHETYPES.map(a => <option key={a} value={a}>{ENEMY_ARCHETYPES[a].name}</option>)}
+                            </select>
+                        </label>
+                        <label className={styles.field}>
+                            Start state
+                            <select value={enemyState} onChange={e => setEnemyState(e.target.value as AIMemory['state'])}>
+                                {AI_STATES.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                        </label>
+                    </>
+                )}
+
+                <div className={styles.section}>Floors</div>
+                <div className={styles.toolGrid}>
+                    {doc.floor.map((_, z) => (
+                        <button key={z} className={classNames(styles.toolButton, { [styles.active]: z === currentZ })} onClick={() => setViewFloor(z)}>
+                            {z + 1}F
+                        </button>
+                    ))}
+                    <button className={styles.toolButton} onClick={() => onChange(addFloor(doc))}>+ Floor</button>
+                    <button className={styles.toolButton} onClick={handleRemoveFloor} disabled={doc.floor.length <= 1}>- Floor</button>
+                </div>
+
+                {tool === 'INSPECT' && selectedTile && (
+                    <>
+                        <div className={styles.section}>
+                            Tile ({selectedTile.coordinate.x},{selectedTile.coordinate.y}) {selectedTile.type}
+                        </div>
+                        <label className={styles.field}>
+                            Noise
+                            <input type="number" step={0.1} min={0} value={selectedTile.metadata.noiseCoefficient}
+                                onChange={e => handleMetadataChange('noiseCoefficient', Number(e.target.value))} />
+                        </label>
+                        <label className={styles.field}>
+                            Opacity
+                            <input type="number" step={0.1} min={0} max={1} value={selectedTile.metadata.opacity}
+                                onChange={e => handleMetadataChange('opacity', Number(e.target.value))} />
+                        </label>
+                        <label className={styles.field}>
+                            Spawn weight
+                            <input type="number" step={0.1} min={0} value={selectedTile.metadata.spawnWeight}
+                                onChange={e => handleMetadataChange('spawnWeight', Number(e.target.value))} />
+                        </label>
+                        <label className={styles.field}>
+                            Walkable
+                            <input type="checkbox" checked={selectedTile.metadata.walkable}
+                                onChange={e => handleMetadataChange('walkable', e.target.checked)} />
+                        </label>
+                        <label className={styles.field}>
+                            Interactable
+                            <input type="checkbox" checked={selectedTile.metadata.isInteractable}
+                                onChange={e => handleMetadataChange('isInteractable', e.target.checked)} />
+                        </label>
+                        {selectedTile.type === 'DOOR' && (
+                            <label className={styles.field}>
+                                Lock
+                                <input type="text" placeholder="none" value={selectedTile.metadata.lockId ?? ''}
+                                    onChange={e => handleMetadataChange('lockId', e.target.value.trim() || undefined)} />
+                            </label>
+                        )}
+
+                        {selectedUnit && (
+                            <>
+                                <div className={styles.section}>{selectedUnit.name} ({selectedUnit.id})</div>
+                                <label className={styles.field}>
+                                    HP
+                                    <input type="number" min={1} value={selectedUnit.status.hp}
+                                        onChange={e => {
+                                            const hp = Math.max(1, Number(e.target.value));
+                                            onChange(updateUnit(doc, selectedUnit.id, { status: { ...selectedUnit.status, hp, maxHp: Math.max(hp, selectedUnit.status.maxHp) } }));
+                                        }} />
+                                </label>
+                                <label className={styles.field}>
+                                    Facing
+                                    <select value={selectedUnit.facing}
+                                        onChange={e => onChange(updateUnit(doc, selectedUnit.id, { facing: e.target.value as Unit['facing'] }))}>
+                                        {FACINGS.map(f => <option key={f} value={f}>{f}</option>)}
+                                    </select>
+                                </label>
+                                {selectedUnit.memory && (
+                                    <label className={styles.field}>
+                                        State
+                                        <select value={selectedUnit.memory.state}
+                                            onChange={e => onChange(updateUnit(doc, selectedUnit.id, { memory: { state: e.target.value as AIMemory['state'] } }))}>
+                                            {AI_STATES.map(s => <option key={s} value={s}>{s}</option>)}
+                                        </select>
+                                    </label>
+                                )}
+                            </>
+                        )}
+                    </>
+                )}
+
+                <div className={styles.section}>Level</div>
+                <div className={styles.toolGrid}>
+                    <button className={styles.toolButton} onClick={handleNew}>New</button>
+                    <button className={styles.toolButton} onClick={() => downloadDocument(doc)}>Export</button>
+                    <button className={styles.toolButton} onClick={() => fileInputRef.current?.click()}>Import</button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImport}
+                        style={{ display: 'none' }}
+                    />
+                </div>
+
+                {errors.length > 0 ? (
+                    <ul className={styles.errors}>
+                        {errors.slice(0, 8).map((error, i) => <li key={i}>{error}</li>)}
+                        {errors.length > 8 && <li>...and {errors.length - 8} more</li>}
+                    </ul>
+                ) : (
+                    <div className={styles.valid}>Map is valid</div>
+                )}
+
+                <div className={styles.toolGrid}>
+                    <button className={classNames(styles.toolButton, styles.playButton)} onClick={() => onPlaytest(toMapFile(doc))} disabled={errors.length > 0}>
+                        Playtest
+                    </button>
+                    <button className={styles.toolButton} onClick={onClose}>Back to Game</button>
+                </div>
+            </div>
+
+            <div className={styles.viewport}>
+                <div
+                    className={gridStyles.gridContainer}
+                    style={{ gridTemplateColumns: `repeat(${currentFloor[0].length}, var(--grid-cell-size))` }}
+                >
+                    {currentFloor.map((row, x) => row.map((tile, y) => {
+                        const at = { x, y, floor: currentZ };
+                        const unit = getUnitAt(doc, at);
+                        const isSelected = tool === 'INSPECT' && selected?.x === x && selected.y === y && selected.floor === currentZ;
+
+                        return (
+                            <div
+                                key={`${x}-${y}`}
+                                className={classNames(gridStyles.tile, { [styles.selected]: isSelected })}
+                                data-type={tile.type}
+                                data-locked={tile.metadata.lockId ? true : undefined}
+                                onMouseDown={() => handleMouseDown(at)}
+                                onMouseEnter={() => handleMouseEnter(at)}
+                            >
+                                {unit && (
+                                    <div className={classNames(gridStyles.unit, {
+                                        [gridStyles.unitPlayer]: unit.type === 'PLAYER',
+                                        [gridStyles.unitEnemy]: unit.type === 'ENEMY',
+                                    })} data-archetype={unit.archetype} title={unit.name}>
+                                        {unit.type === 'ENEMY' && <div className={gridStyles.facingMarker} data-facing={unit.facing} />}
+                                        {unit.memory && <span className={styles.unitState}>{unit.memory.state}</span>}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    }))}
+                </div>
+            </div>
+        </div>
+    );
+};
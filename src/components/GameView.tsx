@@ -1,15 +1,26 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useGameStore } from '../core/store';
+import { createDocumentFromGame } from '../core/editor';
+import { isSquadWipedOut } from '../core/squad';
+import { leaveRoom } from '../core/netplay';
+import type { EditorDocument, MapFile } from '../core/types';
 import { GridRenderer } from './GridRenderer/GridRenderer';
 import { HUD } from './HUD/HUD';
 import { ActionMenu } from './HUD/ActionMenu';
+import { LootSummary } from './HUD/LootSummary';
+import { EventLog } from './HUD/EventLog';
+import { LevelEditor } from './Editor/LevelEditor';
 import styles from './GameView.module.css';
 
 export const GameView: React.FC = () => {
-    const { updateTimer, phase } = useGameStore();
+    const { updateTimer, phase, initGame, floor, units, cycleSelection } = useGameStore();
+    // The editor document outlives play-tests so the designer can jump back and forth
+    const [editorDocument, setEditorDocument] = useState<EditorDocument | null>(null);
+    const [mode, setMode] = useState<'PLAY' | 'EDIT'>('PLAY');
 
-    // Game Loop for Timer
+    // Game Loop for Timer (paused while editing)
     useEffect(() => {
+        if (mode !== 'PLAY') return;
         let lastTime = performance.now();
         let frameId: number;
 
@@ -25,7 +36,19 @@ export const GameView: React.FC = () => {
 
         frameId = requestAnimationFrame(loop);
         return () => cancelAnimationFrame(frameId);
-    }, [updateTimer]);
+    }, [updateTimer, mode]);
+
+    // Tab / Shift+Tab: next / previous survivor
+    useEffect(() => {
+        if (mode !== 'PLAY') return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Tab') return;
+            e.preventDefault();
+            cycleSelection(e.shiftKey ? -1 : 1);
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [cycleSelection, mode]);
 
     // Handle Execution Phase
     useEffect(() => {
@@ -36,11 +59,51 @@ export const GameView: React.FC = () => {
         }
     }, [phase]);
 
+    const openEditor = () => {
+        if (!editorDocument) {
+            // Start from the level being played
+            const { floor, units, mapFile } = useGameStore.getState();
+            setEditorDocument(createDocumentFromGame(floor, units, mapFile?.name));
+        }
+        setMode('EDIT');
+    };
+
+    const playtest = (map: MapFile) => {
+        try {
+            initGame(Date.now(), map);
+            setMode('PLAY');
+        } catch (err) {
+            alert(`Failed to start playtest: ${(err as Error).message}`);
+        }
+    };
+
+    if (mode === 'EDIT' && editorDocument) {
+        return (
+            <div className={styles.gameView}>
+                <LevelEditor
+                    document={editorDocument}
+                    onChange={setEditorDocument}
+                    onPlaytest={playtest}
+                    onClose={() => setMode('PLAY')}
+                />
+            </div>
+        );
+    }
+
     return (
         <div className={styles.gameView}>
-            <HUD />
+            <HUD onOpenEditor={openEditor} />
             <GridRenderer />
             <ActionMenu />
+            <LootSummary />
+            <EventLog />
+            {floor.length > 0 && isSquadWipedOut(units) && (
+                <div className={styles.gameOver}>
+                    <div className={styles.gameOverTitle}>생존자 전멸</div>
+                    {/* An online game ends for everyone at once; a new one is played offline */}
+                    <button className={styles.gameOverButton} onClick={() => { leaveRoom(); initGame(); }}>새 게임</button>
+                </div>
+            )}
         </div>
     );
 };
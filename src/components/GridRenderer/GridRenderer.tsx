@@ -1,36 +1,102 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import classNames from 'classnames';
 import { useGameStore } from '../../core/store';
-import { findPath } from '../../core/pathfinding';
-import type { Coordinate } from '../../core/types';
+import { CLIMB_COST, PREVIEW_NODE_BUDGET, findPath, getClimbTarget, isClimbStep, splitPathIntoLegs } from '../../core/pathfinding';
+import { getPathCosts, getPlannedPosition } from '../../core/planning';
+import { canSeeAny } from '../../core/perception';
+import { getKeys, getThrowTargets, ITEMS } from '../../core/items';
+import { CONTAINER_KINDS, isSearched } from '../../core/loot';
+import { ATTACK_COST, getMeleeTiles, getWeaponStats, isInMeleeRange, isRangedWeapon, previewAttack } from '../../core/combat';
+import type { ReachCheck } from '../../core/combat';
+import { createFootstep, createSound, propagateSound, SOUND_VOLUMES } from '../../core/sound';
+import { getSelectedUnit, getSquad } from '../../core/squad';
+import type { Coordinate, FloorData, SoundEvent, Unit } from '../../core/types';
 import styles from './GridRenderer.module.css';
 
+// Why a shot cannot be taken from where the survivor stands
+const REACH_LABELS: Record<Exclude<ReachCheck, 'OK'>, string> = {
+    DIFFERENT_FLOOR: 'Different floor',
+    OUT_OF_RANGE: 'Out of range',
+    NO_LINE_OF_FIRE: 'No line of fire',
+    NO_AMMO: 'No ammo',
+};
+
+const isSameTile = (a: Coordinate, b: Coordinate) => a.x === b.x && a.y === b.y && a.floor === b.floor;
+
+// Tiles where a sound will be heard
+const getHeardTiles = (floor: FloorData, sounds: (SoundEvent | null)[]): Set<string> => {
+    const heard = new Set<string>();
+    sounds.forEach(sound => {
+        if (sound) propagateSound(floor, sound.origin, sound.volume).forEach((_, key) => heard.add(key));
+    });
+    return heard;
+};
+
+// A footstep on every tile entered (a climb is heard where it arrives)
+const getWalkNoise = (floor: FloorData, walker: Unit, path: Coordinate[]): Set<string> =>
+    getHeardTiles(floor, path.slice(1).map((to, i) => isClimbStep(path[i], to)
+        ? createSound(floor, 'CLIMB', to, SOUND_VOLUMES.CLIMB, walker.id)
+        : createFootstep(floor, walker, to)));
+
 export const GridRenderer: React.FC = () => {
     const {
-        floor, units, initGame, queueAction, phase, actionQueue,
-        visibleTiles, exploredTiles, debugFow, toggleDebugFow,
-        damageEvents, removeDamageEvent
+        floor, units, initGame, restoreAutosave, queueAction, phase, actionQueue,
+        visibleTiles, exploredTiles, debugFow, toggleDebugFow, debugAi, toggleDebugAi,
+        damageEvents, removeDamageEvent, replay, groundItems, targetingItemId, setTargetingItem, containers,
+        isAttackTargeting, setAttackTargeting, selectedUnitId, selectUnit, network
     } = useGameStore();
 
     // Local state for path preview
     const [hoveredTile, setHoveredTile] = useState<Coordinate | null>(null);
-    const [pathPreview, setPathPreview] = useState<Coordinate[] | null>(null);
-    const [queuedPath, setQueuedPath] = useState<Coordinate[] | null>(null);
+    // Floor being looked at (null = follow the selected survivor)
+    const [viewFloor, setViewFloor] = useState<number | null>(null);
 
-    // Initialize game on mount if empty
+    // Initialize game on mount if empty (resume the autosave when there is one)
     useEffect(() => {
-        if (floor.length === 0) {
+        if (floor.length === 0 && !restoreAutosave()) {
             initGame();
         }
-    }, [floor.length, initGame]);
+    }, [floor.length, initGame, restoreAutosave]);
 
-    const playerUnit = Object.values(units).find(u => u.type === 'PLAYER');
-    const currentZ = playerUnit ? playerUnit.position.floor : 0;
+    const playerUnit = getSelectedUnit({ units, selectedUnitId, network });
+    const playerZ = playerUnit ? playerUnit.position.floor : 0;
+    const currentZ = viewFloor !== null && floor[viewFloor] ? viewFloor : playerZ;
     const currentFloor = floor[currentZ];
 
-    const obstacles = Object.values(units)
-        .filter(u => u.type !== 'PLAYER')
-        .map(u => u.position);
+    // Enemies that currently have line of sight to any survivor (one shadowcast per enemy)
+    const spotters = useMemo(() => {
+        const ids = new Set<string>();
+        const squad = getSquad(units).map(member => member.position);
+
+        Object.values(units).forEach(u => {
+            if (u.type === 'ENEMY' && canSeeAny(u, squad, floor)) ids.add(u.id);
+        });
+        return ids;
+    }, [units, floor]);
+
+    // The next step is planned from where the survivor's queued steps leave them
+    const planner = useMemo(() => {
+        if (!playerUnit) return undefined;
+        return { ...playerUnit, position: getPlannedPosition(floor, playerUnit, actionQueue) };
+    }, [playerUnit, floor, actionQueue]);
+
+    // Throwing a noise-maker: every tile in reach is highlighted until one is picked
+    const targetingItem = targetingItemId ? ITEMS[targetingItemId] : undefined;
+    const throwTiles = useMemo(() => {
+        if (!targetingItem || !planner) return null;
+        return getThrowTargets(floor, planner.position, targetingItem.throwRange ?? 0);
+    }, [targetingItem, planner, floor]);
+
+    // Odds against the hovered enemy, shown before any AP is spent
+    const attackPreview = useMemo(() => {
+        if (!hoveredTile || !planner || phase !== 'DECISION') return null;
+        const target = Object.values(units).find(u =>
+            u.faction !== planner.faction &&
+            u.position.x === hoveredTile.x && u.position.y === hoveredTile.y && u.position.floor === hoveredTile.floor
+        );
+        if (!target || (!debugFow && !visibleTiles.has(`${hoveredTile.x},${hoveredTile.y},${hoveredTile.floor}`))) return null;
+        return { targetId: target.id, ...previewAttack(planner, target, floor) };
+    }, [hoveredTile, planner, phase, units, floor, debugFow, visibleTiles]);
 
     // Damage Event Cleanup
     useEffect(() => {
@@ -47,94 +113,197 @@ export const GridRenderer: React.FC = () => {
         }
     }, [damageEvents, removeDamageEvent]);
 
-    useEffect(() => {
-        if (!playerUnit || actionQueue.length === 0) {
-            setQueuedPath(null);
-            return;
-        }
-
-        const playerAction = actionQueue.find(a => a.unitId === playerUnit.id && a.type === 'MOVE');
+    // Paths are derived during render and only recomputed when their inputs change
+    const queuedPath = useMemo(() => {
+        if (!playerUnit || !actionQueue.some(a => a.unitId === playerUnit.id)) return null;
+
+        // Chain the player's MOVE / CLIMB legs into one path
+        let position = playerUnit.position;
+        const path: Coordinate[] = [position];
+
+        actionQueue.filter(a => a.unitId === playerUnit.id).forEach(action => {
+            if (action.type === 'MOVE' && action.target) {
+                const leg = findPath(position, action.target, floor, Object.values(units), playerUnit.id, { allowClimb: false, keys: getKeys(playerUnit) });
+                if (!leg) return;
+                path.push(...leg.slice(1));
+                position = leg[leg.length - 1];
+            } else if (action.type === 'CLIMB') {
+                const arrival = getClimbTarget(floor, position);
+                if (!arrival) return;
+                path.push(arrival);
+                position = arrival;
+            }
+        });
 
-        if (playerAction && playerAction.target) {
-            const path = findPath(playerUnit.position, playerAction.target, floor, Object.values(units), playerUnit.id);
-            setQueuedPath(path);
-        } else {
-            setQueuedPath(null);
-        }
+        return path.length > 1 ? path : null;
     }, [actionQueue, playerUnit, floor, units]);
 
-    useEffect(() => {
-        if (!hoveredTile || !playerUnit || phase !== 'DECISION' || actionQueue.length > 0) {
-            setPathPreview(null);
-            return;
-        }
+    const pathPreview = useMemo(() => {
+        if (!hoveredTile || !planner || phase !== 'DECISION' || targetingItemId || isAttackTargeting) return null;
 
-        if (hoveredTile.x === playerUnit.position.x && hoveredTile.y === playerUnit.position.y) {
-            setPathPreview(null);
-            return;
+        if (hoveredTile.x === planner.position.x && hoveredTile.y === planner.position.y && hoveredTile.floor === planner.position.floor) {
+            return null;
         }
 
         const key = `${hoveredTile.x},${hoveredTile.y},${hoveredTile.floor}`;
-        if (!debugFow && !exploredTiles.has(key) && !visibleTiles.has(key)) {
-            setPathPreview(null);
-            return;
+        if (!debugFow && !exploredTiles.has(key) && !visibleTiles.has(key)) return null;
+
+        // Pass obstacles to allow passthrough (cost calc handles it).
+        // Far targets on large maps may be cut short: the click searches again in full.
+        return findPath(planner.position, hoveredTile, floor, Object.values(units), planner.id, { keys: getKeys(planner), maxExpansions: PREVIEW_NODE_BUDGET });
+    }, [hoveredTile, planner, floor, phase, units, debugFow, exploredTiles, visibleTiles, targetingItemId, isAttackTargeting]);
+
+    const isPreviewCutShort = !!pathPreview && !!hoveredTile && !isSameTile(pathPreview[pathPreview.length - 1], hoveredTile);
+
+    const calculatePathCost = (path: Coordinate[]): number[] =>
+        playerUnit ? getPathCosts(path, playerUnit, Object.values(units)) : [];
+
+    // Attack targeting: shoot from where the survivor will stand, or walk to the cheapest
+    // free tile next to the hovered enemy and strike
+    const attackApproach = useMemo(() => {
+        if (!isAttackTargeting || !attackPreview || !planner) return null;
+        const target = units[attackPreview.targetId];
+        if (!target) return null;
+        if (isRangedWeapon(getWeaponStats(planner))) {
+            return { target, path: null, blocked: attackPreview.reach === 'OK' ? null : REACH_LABELS[attackPreview.reach] };
         }
+        if (isInMeleeRange(planner.position, target.position)) return { target, path: null, blocked: null };
+
+        // The melee tiles share one preview budget; a search cut short is too far to walk this turn anyway
+        const others = Object.values(units).filter(u => u.id !== planner.id);
+        const tiles = getMeleeTiles(floor, target, others);
+        const maxExpansions = Math.ceil(PREVIEW_NODE_BUDGET / Math.max(1, tiles.length));
+        const paths = tiles
+            .map(tile => ({ tile, path: findPath(planner.position, tile, floor, Object.values(units), planner.id, { allowClimb: false, keys: getKeys(planner), maxExpansions }) }))
+            .filter(({ tile, path }) => !!path && path.length > 1 && isSameTile(path[path.length - 1], tile))
+            .map(({ path }) => path as Coordinate[]);
+        // Step distance (diagonals 1.5); the full AP cost is worked out below
+        const length = (path: Coordinate[]) => path.reduce((sum, p, i) =>
+            i === 0 ? 0 : sum + (p.x !== path[i - 1].x && p.y !== path[i - 1].y ? 1.5 : 1), 0);
+        const path = paths.reduce<Coordinate[] | null>((best, p) => (!best || length(p) < length(best) ? p : best), null);
+        return { target, path, blocked: path ? null : 'Unreachable' };
+    }, [isAttackTargeting, attackPreview, planner, units, floor]);
+
+    const attackMoveCost = attackApproach?.path ? calculatePathCost(attackApproach.path)[attackApproach.path.length - 1] : 0;
+    const attackPlan = attackApproach && {
+        target: attackApproach.target,
+        path: attackApproach.path,
+        blocked: attackApproach.blocked,
+        moveCost: attackApproach.blocked ? Infinity : attackMoveCost,
+        totalCost: attackApproach.blocked ? Infinity : attackMoveCost + ATTACK_COST
+    };
 
-        // Pass obstacles to allow passthrough (cost calc handles it)
-        const path = findPath(playerUnit.position, hoveredTile, floor, Object.values(units), playerUnit.id);
-        setPathPreview(path);
-    }, [hoveredTile, playerUnit, floor, phase, actionQueue.length, units, debugFow, exploredTiles, visibleTiles]);
-
-    const calculatePathCost = (path: Coordinate[]): number[] => {
-        if (!path || path.length < 2) return [];
-        const costs: number[] = [0];
-        let currentCost = 0;
-
-        const mode = playerUnit?.status.movementMode || 'RUN';
-        const multiplier = mode === 'SNEAK' ? 2 : 1;
+    // The step being previewed carries on from the end of the queued ones
+    const previewPath = attackApproach?.path || pathPreview;
+    const costs = useMemo(
+        () => (previewPath && playerUnit ? getPathCosts(previewPath, playerUnit, Object.values(units)) : []),
+        [previewPath, playerUnit, units]
+    );
 
-        for (let i = 0; i < path.length - 1; i++) {
-            const curr = path[i];
-            const next = path[i + 1];
+    // --- Noise Map Calculation (Cumulative, propagated through walls and off loud tiles) ---
+    // Each source is only propagated again when its own inputs change (not on every hover)
+    const queuedNoise = useMemo(() => (planner ? getWalkNoise(floor, planner, queuedPath ?? []) : null), [floor, planner, queuedPath]);
+    const previewNoise = useMemo(() => (planner ? getWalkNoise(floor, planner, previewPath ?? []) : null), [floor, planner, previewPath]);
+
+    const throwTarget = targetingItem?.noise && hoveredTile && throwTiles?.has(`${hoveredTile.x},${hoveredTile.y},${hoveredTile.floor}`)
+        ? hoveredTile
+        : null;
+    const isShotPlanned = !!planner && !!attackApproach && !attackApproach.blocked && isRangedWeapon(getWeaponStats(planner));
+
+    const noiseMap = useMemo(() => {
+        if (!planner) return new Set<string>();
+        if (throwTarget && targetingItem?.noise) {
+            // Where the thrown item will be heard
+            return getHeardTiles(floor, [createSound(floor, targetingItem.noise.kind, throwTarget, targetingItem.noise.volume, planner.id)]);
+        }
+        if (isShotPlanned) {
+            // Where the shot will be heard
+            const shotVolume = getWeaponStats(planner).shotVolume ?? SOUND_VOLUMES.SHOT;
+            return getHeardTiles(floor, [createSound(floor, 'SHOT', planner.position, shotVolume, planner.id)]);
+        }
+        if (!queuedPath && !previewPath) {
+            // Standing still
+            return getHeardTiles(floor, [createFootstep(floor, planner, planner.position)]);
+        }
+        return new Set([...(queuedNoise ?? []), ...(previewNoise ?? [])]);
+    }, [floor, planner, throwTarget, targetingItem, isShotPlanned, queuedPath, previewPath, queuedNoise, previewNoise]);
 
-            // Default Cost
-            let stepCost = (curr.x !== next.x && curr.y !== next.y) ? 1.5 : 1.0;
+    const handleTileClick = (coord: Coordinate) => {
+        if (phase !== 'DECISION' || !playerUnit || replay || network?.submitted) return;
+
+        // Clicking another survivor hands the orders over to them
+        const squadmate = getSquad(units).find(u =>
+            u.id !== playerUnit.id && u.position.x === coord.x && u.position.y === coord.y && u.position.floor === coord.floor
+        );
+        if (squadmate && !targetingItem && !isAttackTargeting) {
+            selectUnit(squadmate.id);
+            return;
+        }
 
-            // Check if NEXT tile is occupied by obstacle (Enemy)
-            // Note: findPath already handles this logic but we need to visualize correct AP usage.
-            // If next tile has enemy, cost is 3.0 (Pass-through).
-            if (obstacles.some(o => o.x === next.x && o.y === next.y)) {
-                stepCost = 3.0;
+        if (isAttackTargeting) {
+            if (!attackPlan) return; // Not an enemy in sight
+            if (attackPlan.blocked) {
+                alert(`Cannot attack that enemy (${attackPlan.blocked})`);
+                return;
             }
-
-            // Apply Mode Multiplier (Sneak x2)
-            stepCost *= multiplier;
-
-            currentCost += stepCost;
-            costs.push(currentCost);
+            if (attackPlan.totalCost > playerUnit.status.ap) {
+                alert(`Not enough AP to attack (Cost: ${attackPlan.totalCost})`);
+                return;
+            }
+            if (attackPlan.path) {
+                splitPathIntoLegs(attackPlan.path, calculatePathCost(attackPlan.path)).forEach(leg => {
+                    queueAction({ type: leg.type, unitId: playerUnit.id, target: { ...leg.target }, cost: leg.cost, status: 'QUEUED' });
+                });
+            }
+            // Adjacency is checked again when the strike resolves
+            queueAction({
+                type: 'ATTACK',
+                unitId: playerUnit.id,
+                targetUnitId: attackPlan.target.id,
+                cost: ATTACK_COST,
+                status: 'QUEUED'
+            });
+            setAttackTargeting(false);
+            return;
         }
-        return costs;
-    };
 
-    const handleTileClick = (coord: Coordinate) => {
-        if (phase !== 'DECISION' || !playerUnit || actionQueue.length > 0) return;
+        if (targetingItem && throwTiles) {
+            if (!throwTiles.has(`${coord.x},${coord.y},${coord.floor}`)) {
+                alert(`Out of throwing range (${targetingItem.throwRange} tiles, clear line needed)`);
+                return;
+            }
+            if (playerUnit.status.ap < (targetingItem.useCost ?? 0)) {
+                alert(`Not enough AP to throw (Cost: ${targetingItem.useCost})`);
+                return;
+            }
+            queueAction({
+                type: 'USE',
+                unitId: playerUnit.id,
+                itemId: targetingItem.id,
+                target: coord,
+                cost: targetingItem.useCost ?? 0,
+                status: 'QUEUED'
+            });
+            setTargetingItem(null);
+            return;
+        }
 
-        // CLIMB Logic: Interact with Stairs by clicking on self
-        if (coord.x === playerUnit.position.x && coord.y === playerUnit.position.y && coord.floor === playerUnit.position.floor) {
+        // CLIMB Logic: Interact with Stairs by clicking on where the survivor will stand
+        const at = planner!.position;
+        if (coord.x === at.x && coord.y === at.y && coord.floor === at.floor) {
             const tile = floor[coord.floor][coord.x][coord.y];
             if (tile.type === 'STAIRS_UP' || tile.type === 'STAIRS_DOWN') {
                 // Check AP
-                if (playerUnit.status.ap < 3) {
-                    alert("Not enough AP to Climb (Cost: 3)");
+                if (playerUnit.status.ap < CLIMB_COST) {
+                    alert(`Not enough AP to Climb (Cost: ${CLIMB_COST})`);
                     return;
                 }
 
                 queueAction({
-                    id: crypto.randomUUID(),
                     type: 'CLIMB',
                     unitId: playerUnit.id,
                     target: coord,
-                    cost: 3,
+                    cost: CLIMB_COST,
                     status: 'QUEUED'
                 });
                 return;
@@ -143,72 +312,73 @@ export const GridRenderer: React.FC = () => {
 
         if (!pathPreview) return;
 
-        const costs = calculatePathCost(pathPreview);
+        // The preview ran out of budget: this one-off search may take as long as it needs
+        const path = isPreviewCutShort
+            ? findPath(planner!.position, coord, floor, Object.values(units), planner!.id, { keys: getKeys(planner!) })
+            : pathPreview;
+        if (!path) return;
+
+        const costs = calculatePathCost(path);
         const reachableIndex = costs.findIndex(c => c > playerUnit.status.ap);
 
-        let pathToAction = pathPreview;
+        let pathToAction = path;
         // Slice invisible or unreachable parts?
         // Logic: if cost > AP, we stop there.
         if (reachableIndex !== -1) {
-            pathToAction = pathPreview.slice(0, reachableIndex);
+            pathToAction = path.slice(0, reachableIndex);
         }
 
         if (pathToAction.length <= 1) return;
 
-        const actionCost = costs[pathToAction.length - 1];
-        const finalTarget = pathToAction[pathToAction.length - 1];
-
-        queueAction({
-            id: crypto.randomUUID(),
-            type: 'MOVE',
-            unitId: playerUnit.id,
-            target: finalTarget,
-            cost: actionCost,
-            status: 'QUEUED'
+        // A destination on another floor becomes MOVE -> CLIMB -> MOVE
+        splitPathIntoLegs(pathToAction, costs).forEach(leg => {
+            queueAction({
+                type: leg.type,
+                unitId: playerUnit.id,
+                target: leg.target,
+                cost: leg.cost,
+                status: 'QUEUED'
+            });
         });
-
-        setPathPreview(null);
     };
 
     if (!currentFloor) return <div className={styles.gridContainer}>Loading Map...</div>;
 
-    const activePath = queuedPath || pathPreview;
-    const costs = activePath ? calculatePathCost(activePath) : [];
-
-    // --- Noise Map Calculation (Cumulative) ---
-    const noiseMap = new Set<string>();
-    const noiseLevel = playerUnit?.status.noiseLevel ?? 3;
-    const noiseSources = (activePath && activePath.length > 0)
-        ? activePath
-        : (playerUnit ? [playerUnit.position] : []);
-
-    if (playerUnit) {
-        noiseSources.forEach(source => {
-            for (let dx = -noiseLevel; dx <= noiseLevel; dx++) {
-                for (let dy = -noiseLevel; dy <= noiseLevel; dy++) {
-                    if (Math.abs(dx) + Math.abs(dy) <= noiseLevel) {
-                        noiseMap.add(`${source.x + dx},${source.y + dy}`);
-                    }
-                }
-            }
-        });
-    }
-
     return (
         <div style={{ position: 'relative' }}>
             <div style={{ position: 'absolute', top: 10, right: 10, zIndex: 100 }}>
                 <button onClick={toggleDebugFow} style={{ padding: '5px 10px', background: '#333', color: 'white', border: '1px solid #555', cursor: 'pointer' }}>
                     {debugFow ? 'FOW: OFF' : 'FOW: ON'}
                 </button>
+                {/* Behavior-tree traces of every enemy go to the console each turn */}
+                <button onClick={toggleDebugAi} style={{ marginLeft: 5, padding: '5px 10px', background: '#333', color: 'white', border: '1px solid #555', cursor: 'pointer' }}>
+                    {debugAi ? 'AI LOG: ON' : 'AI LOG: OFF'}
+                </button>
                 <div style={{ color: 'white', marginTop: 5, fontSize: '0.8rem', textAlign: 'right' }}>
-                    Player HP: {playerUnit?.status.hp}
+                    {playerUnit ? `${playerUnit.name} HP: ${playerUnit.status.hp}` : 'Squad lost'}
+                </div>
+                {/* Floor Viewer: pick destinations on explored tiles of other floors */}
+                <div style={{ display: 'flex', gap: 4, marginTop: 5, justifyContent: 'flex-end' }}>
+                    {floor.map((_, z) => (
+                        <button
+                            key={z}
+                            onClick={() => setViewFloor(z === playerZ ? null : z)}
+                            style={{
+                                padding: '2px 8px', color: 'white', cursor: 'pointer',
+                                background: z === currentZ ? '#555' : '#333',
+                                border: z === playerZ ? '1px solid #4caf50' : '1px solid #555'
+                            }}
+                        >
+                            {z + 1}F
+                        </button>
+                    ))}
                 </div>
             </div>
 
             <div
                 className={styles.gridContainer}
                 style={{
-                    gridTemplateColumns: `repeat(${currentFloor.length}, var(--grid-cell-size))`
+                    gridTemplateColumns: `repeat(${currentFloor[0].length}, var(--grid-cell-size))`
                 }}
             >
                 {currentFloor.map((row, x) => (
@@ -218,29 +388,30 @@ export const GridRenderer: React.FC = () => {
                         const isVisible = debugFow || visibleTiles.has(tileKey);
                         const isExplored = debugFow || exploredTiles.has(tileKey);
 
-                        const pathIndex = activePath?.findIndex(p => p.x === x && p.y === y);
-                        const isPath = pathIndex !== undefined && pathIndex !== -1;
-                        const isStart = pathIndex === 0;
+                        const queuedIndex = queuedPath?.findIndex(p => p.x === x && p.y === y && p.floor === currentZ) ?? -1;
+                        const previewIndex = previewPath?.findIndex(p => p.x === x && p.y === y && p.floor === currentZ) ?? -1;
+                        const isPath = queuedIndex !== -1 || previewIndex !== -1;
+                        const isStart = queuedIndex === 0 || (!queuedPath && previewIndex === 0);
 
-                        let isUnreachable = false;
-                        const isPreview = !queuedPath && pathPreview;
-
-                        if (isPreview && isPath && playerUnit && pathIndex !== undefined) {
-                            if (costs[pathIndex] > playerUnit.status.ap) {
-                                isUnreachable = true;
-                            }
-                        }
+                        // Queued steps are already paid for; only the previewed one can run out of AP
+                        // A cut-short preview only heads towards the hovered tile
+                        const isUnreachable = previewIndex !== -1 && !!playerUnit &&
+                            (costs[previewIndex] > playerUnit.status.ap || (previewPath === pathPreview && isPreviewCutShort));
 
                         // Show path if Explored or Visible
                         const showPath = isPath && (isVisible || isExplored);
 
                         // Noise Visualization (Cumulative, Always Visible)
-                        const isNoise = noiseMap.has(`${x},${y}`);
+                        const isNoise = noiseMap.has(tileKey);
 
                         const unitOnTile = Object.values(units).find(u =>
                             u.position.x === x && u.position.y === y && u.position.floor === currentZ
                         );
 
+                        const containerOnTile = containers.find(c =>
+                            c.position.x === x && c.position.y === y && c.position.floor === currentZ
+                        );
+
                         const tileDamageEvents = (damageEvents || []).filter(e => e.position.x === x && e.position.y === y && e.position.floor === currentZ);
 
                         return (
@@ -249,9 +420,13 @@ export const GridRenderer: React.FC = () => {
                                 className={classNames(styles.tile, {
                                     [styles.dimmed]: isExplored && !isVisible,
                                     [styles.unexplored]: !isExplored && !isVisible,
+                                    [styles.throwTarget]: throwTiles?.has(tileKey),
+                                    [styles.attackTarget]: attackPlan?.target.id === unitOnTile?.id && !!unitOnTile,
                                     // Removed old path classes from container
                                 })}
                                 data-type={tile.type}
+                                data-locked={tile.metadata.lockId ? true : undefined}
+                                title={tile.metadata.lockId ? `Locked (${tile.metadata.lockId})` : undefined}
                                 onMouseEnter={() => setHoveredTile({ x, y, floor: currentZ })}
                                 onMouseLeave={() => setHoveredTile(null)}
                                 onClick={() => handleTileClick({ x, y, floor: currentZ })}
@@ -259,10 +434,10 @@ export const GridRenderer: React.FC = () => {
                                 {/* Noise Overlay with Directional Borders */}
                                 {isNoise && (
                                     <div className={classNames(styles.noiseOverlay, {
-                                        [styles.noiseBorderTop]: !noiseMap.has(`${x - 1},${y}`),
-                                        [styles.noiseBorderBottom]: !noiseMap.has(`${x + 1},${y}`),
-                                        [styles.noiseBorderLeft]: !noiseMap.has(`${x},${y - 1}`),
-                                        [styles.noiseBorderRight]: !noiseMap.has(`${x},${y + 1}`),
+                                        [styles.noiseBorderTop]: !noiseMap.has(`${x - 1},${y},${currentZ}`),
+                                        [styles.noiseBorderBottom]: !noiseMap.has(`${x + 1},${y},${currentZ}`),
+                                        [styles.noiseBorderLeft]: !noiseMap.has(`${x},${y - 1},${currentZ}`),
+                                        [styles.noiseBorderRight]: !noiseMap.has(`${x},${y + 1},${currentZ}`),
                                     })} />
                                 )}
 
@@ -274,11 +449,63 @@ export const GridRenderer: React.FC = () => {
                                     })} />
                                 )}
 
+                                {/* Containers stay on the map once seen */}
+                                {containerOnTile && isExplored && (
+                                    <div
+                                        className={classNames(styles.lootContainer, {
+                                            [styles.looted]: isSearched(containerOnTile) && containerOnTile.items.length === 0
+                                        })}
+                                        data-kind={containerOnTile.kind}
+                                        title={`${CONTAINER_KINDS[containerOnTile.kind].name} (${containerOnTile.progress}/${containerOnTile.searchCost})`}
+                                    >
+                                        {containerOnTile.progress > 0 && !isSearched(containerOnTile) && (
+                                            <div
+                                                className={styles.searchProgress}
+                                                style={{ width: `${(containerOnTile.progress / containerOnTile.searchCost) * 100}%` }}
+                                            />
+                                        )}
+                                    </div>
+                                )}
+
+                                {isVisible && groundItems.some(g => g.position.x === x && g.position.y === y && g.position.floor === currentZ) && (
+                                    <div className={styles.groundItem} title="Items on the ground" />
+                                )}
+
                                 {(unitOnTile && isVisible) && (
                                     <div className={classNames(styles.unit, {
                                         [styles.unitPlayer]: unitOnTile.type === 'PLAYER',
-                                        [styles.unitEnemy]: unitOnTile.type === 'ENEMY'
-                                    })}>
+                                        [styles.unitSelected]: unitOnTile.id === playerUnit?.id,
+                                        [styles.unitEnemy]: unitOnTile.type === 'ENEMY',
+                                        [styles.spotting]: spotters.has(unitOnTile.id)
+                                    })} data-archetype={unitOnTile.archetype} title={unitOnTile.name}>
+                                        {unitOnTile.type === 'ENEMY' && (
+                                            <div className={styles.facingMarker} data-facing={unitOnTile.facing} />
+                                        )}
+                                        {spotters.has(unitOnTile.id) && (
+                                            <div className={styles.sightIndicator} title="Has line of sight to your squad">👁</div>
+                                        )}
+                                        {attackPreview?.targetId === unitOnTile.id && (
+                                            <div className={styles.attackPreview}>
+                                                <div>Hit {Math.round(attackPreview.hitChance * 100)}%</div>
+                                                <div>
+                                                    Dmg {attackPreview.minDamage === attackPreview.maxDamage
+                                                        ? attackPreview.minDamage
+                                                        : `${attackPreview.minDamage}-${attackPreview.maxDamage}`}
+                                                    {' '}(avg {attackPreview.expectedDamage.toFixed(1)})
+                                                </div>
+                                                <div>Crit {Math.round(attackPreview.critChance * 100)}% → {attackPreview.critMaxDamage}</div>
+                                                <div>HP {unitOnTile.status.hp}/{unitOnTile.status.maxHp}</div>
+                                                {attackPreview.isSneakAttack && <div className={styles.sneakTag}>Sneak attack</div>}
+                                                {attackPreview.knockback > 0 && <div>Knockback {attackPreview.knockback}</div>}
+                                                {attackPreview.ammo !== null && <div>Ammo {attackPreview.ammo}</div>}
+                                                {attackPlan && (
+                                                    <div className={classNames({ [styles.unaffordable]: attackPlan.totalCost > (playerUnit?.status.ap ?? 0) })}>
+                                                        {attackPlan.blocked
+                                                            ?? `AP ${attackPlan.moveCost > 0 ? `${attackPlan.moveCost} + ` : ''}${ATTACK_COST} = ${attackPlan.totalCost}`}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
                                         {unitOnTile.type === 'ENEMY' && unitOnTile.memory?.state === 'CHASE' && (
                                             <div style={{
                                                 position: 'absolute', top: -15, left: '50%', transform: 'translateX(-50%)',
@@ -1,17 +1,30 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useGameStore } from '../../core/store';
+import { CONTAINER_KINDS, isSearched, isWithinReach } from '../../core/loot';
+import { ATTACK_COST, getAmmoCount, getWeaponStats, isRangedWeapon } from '../../core/combat';
+import { getSelectedUnit } from '../../core/squad';
+import { getPlannedPosition } from '../../core/planning';
+import { InventoryPanel } from './InventoryPanel';
+import { TurnPlan } from './TurnPlan';
 import styles from './ActionMenu.module.css';
 
 export const ActionMenu: React.FC = () => {
-    const { units, floor, queueAction, phase, actionQueue, toggleSneak } = useGameStore();
+    const {
+        units, floor, queueAction, phase, actionQueue, toggleSneak, replay, containers,
+        isAttackTargeting, setAttackTargeting, selectedUnitId, network
+    } = useGameStore();
+    const [isBagOpen, setIsBagOpen] = useState(false);
 
-    const playerUnit = Object.values(units).find(u => u.type === 'PLAYER');
-    if (!playerUnit) return null;
+    const selected = getSelectedUnit({ units, selectedUnitId, network });
+    if (!selected) return null;
 
+    // Steps are chained: the next one starts where the queued ones leave the survivor
+    const playerUnit = { ...selected, position: getPlannedPosition(floor, selected, actionQueue) };
     const { x, y, floor: z } = playerUnit.position;
     const currentTile = floor[z]?.[x]?.[y];
 
-    const isMyTurn = phase === 'DECISION' && actionQueue.length === 0;
+    // Orders can be added until the AP runs out
+    const isMyTurn = phase === 'DECISION' && !replay && !network?.submitted; // Online orders are final once handed in
 
     const handleClimb = () => {
         if (!isMyTurn) return;
@@ -20,7 +33,6 @@ export const ActionMenu: React.FC = () => {
             return;
         }
         queueAction({
-            id: crypto.randomUUID(),
             type: 'CLIMB',
             unitId: playerUnit.id,
             target: playerUnit.position,
@@ -29,28 +41,42 @@ export const ActionMenu: React.FC = () => {
         });
     };
 
-    const handleWait = () => {
-        if (!isMyTurn) return;
+    // Determine available actions
+    const canClimb = currentTile && (currentTile.type === 'STAIRS_UP' || currentTile.type === 'STAIRS_DOWN');
+
+    // Nearest container within reach that still has something to give
+    const container = containers
+        .filter(c => isWithinReach(c, playerUnit.position) && (!isSearched(c) || c.items.length > 0))
+        .sort((a, b) =>
+            (Math.abs(a.position.x - x) + Math.abs(a.position.y - y)) - (Math.abs(b.position.x - x) + Math.abs(b.position.y - y))
+        )[0];
+    // As much of the remaining work as this turn's AP allows; emptying a searched one takes 1 AP
+    const searchCost = container
+        ? (isSearched(container) ? 1 : Math.min(playerUnit.status.ap, container.searchCost - container.progress))
+        : 0;
+
+    const isRanged = isRangedWeapon(getWeaponStats(playerUnit));
+    const ammo = getAmmoCount(playerUnit);
+
+    const handleSearch = () => {
+        if (!isMyTurn || !container) return;
+        if (playerUnit.status.ap < 1) {
+            alert("Not enough AP (1 needed)");
+            return;
+        }
         queueAction({
-            id: crypto.randomUUID(),
-            type: 'WAIT', // Need to ensure WAIT is handled in processor? Usually WAIT just ends turn or skips? 
-            // Actually 'WAIT' might not be in ActionType properly handled yet.
-            // Let's assume it skips current action slot or restores AP slightly? 
-            // For now, let's just log it or make it cost 0 and do nothing.
-            // Or maybe 'End Turn'? 
-            // User requested "Action UI", let's stick to CLIMB for now.
+            type: 'SEARCH',
             unitId: playerUnit.id,
-            cost: 0,
+            target: container.position,
+            cost: searchCost,
             status: 'QUEUED'
         });
     };
 
-    // Determine available actions
-    const canClimb = currentTile && (currentTile.type === 'STAIRS_UP' || currentTile.type === 'STAIRS_DOWN');
-
     return (
         <div className={styles.container}>
             <div className={styles.header}>행동</div>
+            <TurnPlan unit={selected} canEdit={isMyTurn} />
             <div className={styles.buttonList}>
                 {/* Movement Mode Toggle */}
                 <button
@@ -72,14 +98,38 @@ export const ActionMenu: React.FC = () => {
                     </button>
                 )}
 
-                {/* Future: Attack, Search, etc. */}
-                <button className={styles.actionButton} disabled>
-                    수색 (준비중)
+                <button
+                    className={`${styles.actionButton} ${isAttackTargeting ? styles.active : ''}`}
+                    onClick={() => setAttackTargeting(!isAttackTargeting)}
+                    disabled={!isMyTurn || playerUnit.status.ap < ATTACK_COST || ammo <= 0}
+                >
+                    {isAttackTargeting
+                        ? '공격할 적 선택... (취소)'
+                        : isRanged ? `사격 (${ATTACK_COST} AP, 탄약 ${ammo})` : `공격 (${ATTACK_COST} AP + 이동)`}
+                </button>
+
+                <button
+                    className={styles.actionButton}
+                    onClick={handleSearch}
+                    disabled={!isMyTurn || !container || playerUnit.status.ap < 1}
+                >
+                    {!container
+                        ? '수색 (주변에 없음)'
+                        : isSearched(container)
+                            ? `${CONTAINER_KINDS[container.kind].name}에서 꺼내기 (1 AP)`
+                            : `수색: ${CONTAINER_KINDS[container.kind].name} (${container.progress}/${container.searchCost}, ${searchCost} AP)`}
                 </button>
-                <button className={styles.actionButton} disabled>
-                    가방
+                <button
+                    className={`${styles.actionButton} ${isBagOpen ? styles.active : ''}`}
+                    onClick={() => setIsBagOpen(!isBagOpen)}
+                >
+                    가방{playerUnit.inventory ? ` (${playerUnit.inventory.items.length})` : ''}
                 </button>
             </div>
+
+            {isBagOpen && (
+                <InventoryPanel unit={playerUnit} canAct={isMyTurn} onClose={() => setIsBagOpen(false)} />
+            )}
         </div>
     );
 };
@@ -0,0 +1,30 @@
+import React, { useEffect, useRef } from 'react';
+import classNames from 'classnames';
+import { useGameStore } from '../../core/store';
+import styles from './EventLog.module.css';
+
+// Newest entries at the bottom, scrolled into view as they arrive
+export const EventLog: React.FC = () => {
+    const { eventLog } = useGameStore();
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [eventLog]);
+
+    if (eventLog.length === 0) return null;
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>기록</div>
+            <div className={styles.list} ref={listRef}>
+                {eventLog.map((entry, i) => (
+                    <div key={i} className={classNames(styles.entry, { [styles.alert]: entry.kind === 'ALERT' })}>
+                        <span className={styles.turn}>{entry.turn}</span>
+                        {entry.text}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -1,44 +1,233 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import classNames from 'classnames';
 import { useGameStore } from '../../core/store';
+import { deserializeGameState, downloadSave } from '../../core/save';
+import { downloadReplay, parseReplayFile } from '../../core/replay';
+import { parseMapFile } from '../../core/mapFormat';
+import { BUNDLED_MAPS } from '../../maps';
+import { getSelectedUnit, getSquad } from '../../core/squad';
+import { DEFAULT_RELAY_URL, joinRoom, leaveRoom, startOnlineGame } from '../../core/netplay';
+import type { MapFile } from '../../core/types';
 import styles from './HUD.module.css';
 
-export const HUD: React.FC = () => {
-    const { timer, phase, units, actionQueue, cancelAction } = useGameStore();
+interface HUDProps {
+    onOpenEditor: () => void;
+}
 
-    // Assuming single player for now or finding the 'local' player
-    const playerUnit = Object.values(units).find(u => u.type === 'PLAYER');
+export const HUD: React.FC<HUDProps> = ({ onOpenEditor }) => {
+    const {
+        timer, phase, units, actionQueue, cancelAction, initGame, loadGameState,
+        replay, startReplay, stopReplay, selectedUnitId, selectUnit, network
+    } = useGameStore();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const replayInputRef = useRef<HTMLInputElement>(null);
+    const mapInputRef = useRef<HTMLInputElement>(null);
+    const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+    const [room, setRoom] = useState('village');
 
-    const hasQueuedActions = actionQueue.length > 0;
+    const squad = getSquad(units);
+    const playerUnit = getSelectedUnit({ units, selectedUnitId, network });
+    const queuedCount = (unitId: string) => actionQueue.filter(a => a.unitId === unitId).length;
+
+    const handleExport = () => {
+        downloadSave(useGameStore.getState());
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-importing the same file
+        if (!file) return;
+
+        try {
+            loadGameState(deserializeGameState(await file.text()));
+        } catch (err) {
+            alert(`Failed to load save: ${(err as Error).message}`);
+        }
+    };
+
+    const handleReplayImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            startReplay(parseReplayFile(await file.text()));
+        } catch (err) {
+            alert(`Failed to load replay: ${(err as Error).message}`);
+        }
+    };
+
+    const startMap = (map: MapFile) => {
+        try {
+            initGame(Date.now(), map);
+        } catch (err) {
+            alert(`Failed to load map: ${(err as Error).message}`);
+        }
+    };
+
+    const handleMapImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            startMap(parseMapFile(await file.text()));
+        } catch (err) {
+            alert(`Failed to load map: ${(err as Error).message}`);
+        }
+    };
+
+    const handleScenarioSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const map = BUNDLED_MAPS[Number(e.target.value)];
+        e.target.value = '';
+        if (map) startMap(map);
+    };
+
+    const canManageSaves = phase === 'DECISION' && !replay && !network;
+
+    const networkStatus = () => {
+        if (!network) return null;
+        if (network.status === 'CONNECTING') return 'Connecting...';
+        if (network.status === 'CLOSED') return 'Disconnected';
+        const players = network.peers.length + 1;
+        return `${network.role} ${network.room} (${players} player${players > 1 ? 's' : ''})`
+            + (network.desyncs > 0 ? ` desync ${network.desyncs}` : '');
+    };
 
     return (
         <div className={styles.hudContainer}>
             <div className={styles.phaseInfo}>
                 <div style={{ fontSize: '0.8rem', color: '#888' }}>CURRENT PHASE</div>
                 <div style={{ fontWeight: 'bold' }}>{phase}</div>
+                {replay && (
+                    <div className={styles.replayInfo}>
+                        REPLAY {Math.min(replay.cursor, replay.file.turns.length)} / {replay.file.turns.length}
+                        {replay.desyncs > 0 && ` (desync ${replay.desyncs})`}
+                    </div>
+                )}
+
+                <div className={styles.saveControls}>
+                    <button className={styles.saveButton} onClick={handleExport} disabled={!canManageSaves}>
+                        Export
+                    </button>
+                    <button className={styles.saveButton} onClick={() => fileInputRef.current?.click()} disabled={!canManageSaves}>
+                        Import
+                    </button>
+                    <button className={styles.saveButton} onClick={() => initGame()} disabled={!canManageSaves}>
+                        New
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImport}
+                        style={{ display: 'none' }}
+                    />
+                </div>
+
+                <div className={styles.saveControls}>
+                    <button className={styles.saveButton} onClick={() => downloadReplay(useGameStore.getState())} disabled={!canManageSaves}>
+                        Save Replay
+                    </button>
+                    {replay ? (
+                        <button className={styles.saveButton} onClick={stopReplay}>
+                            Stop Replay
+                        </button>
+                    ) : (
+                        <button className={styles.saveButton} onClick={() => replayInputRef.current?.click()} disabled={!canManageSaves}>
+                            Load Replay
+                        </button>
+                    )}
+                    <input
+                        ref={replayInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleReplayImport}
+                        style={{ display: 'none' }}
+                    />
+                </div>
+
+                <div className={styles.saveControls}>
+                    <select className={styles.saveButton} value="" onChange={handleScenarioSelect} disabled={!canManageSaves}>
+                        <option value="" disabled>Scenario...</option>
+                        {BUNDLED_MAPS.map((map, i) => (
+                            <option key={i} value={i} title={map.description}>{map.name ?? `Map ${i + 1}`}</option>
+                        ))}
+                    </select>
+                    <button className={styles.saveButton} onClick={() => mapInputRef.current?.click()} disabled={!canManageSaves}>
+                        Load Map
+                    </button>
+                    <button className={styles.saveButton} onClick={onOpenEditor} disabled={!canManageSaves}>
+                        Editor
+                    </button>
+                    <input
+                        ref={mapInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleMapImport}
+                        style={{ display: 'none' }}
+                    />
+                </div>
+
+                {network ? (
+                    <div className={styles.saveControls}>
+                        <span className={styles.networkInfo}>{networkStatus()}</span>
+                        {network.role === 'HOST' && network.status === 'LOBBY' && (
+                            <button className={styles.saveButton} onClick={startOnlineGame}>
+                                Start
+                            </button>
+                        )}
+                        <button className={styles.saveButton} onClick={leaveRoom}>
+                            Leave
+                        </button>
+                    </div>
+                ) : (
+                    <div className={styles.saveControls}>
+                        <input className={styles.netInput} value={relayUrl} onChange={e => setRelayUrl(e.target.value)} title="Relay URL" />
+                        <input className={styles.netInput} value={room} onChange={e => setRoom(e.target.value)} title="Room" />
+                        <button className={styles.saveButton} onClick={() => joinRoom(relayUrl, room)} disabled={!canManageSaves || !room}>
+                            Online
+                        </button>
+                    </div>
+                )}
             </div>
 
             <div className={classNames(styles.timer, {
                 [styles.low]: phase === 'DECISION' && timer < 2.0
             })}>
-                {phase === 'DECISION' ? timer.toFixed(1) : 'WAIT...'}
+                {phase === 'DECISION' && !network?.submitted ? timer.toFixed(1) : 'WAIT...'}
             </div>
 
             <div className={styles.playerStats}>
-                <div style={{ fontSize: '0.8rem', color: '#888' }}>AP Left</div>
+                <div style={{ fontSize: '0.8rem', color: '#888' }}>{playerUnit ? `${playerUnit.name} AP Left` : 'AP Left'}</div>
                 <div className={styles.apValue}>
                     {playerUnit ? `${playerUnit.status.ap.toFixed(1)} / ${playerUnit.status.maxAp}` : '-'}
                 </div>
 
-                {phase === 'DECISION' && (
+                {phase === 'DECISION' && !replay && playerUnit && (
                     <button
                         className={styles.cancelButton}
-                        onClick={cancelAction}
-                        disabled={!hasQueuedActions}
+                        onClick={() => cancelAction(playerUnit.id)}
+                        disabled={queuedCount(playerUnit.id) === 0}
                     >
-                        Cancel Action ({actionQueue.length})
+                        Cancel Action ({queuedCount(playerUnit.id)})
                     </button>
                 )}
+
+                {/* Squad roster: click (or Tab) to pick who takes orders */}
+                <div className={styles.squadList}>
+                    {squad.map(member => (
+                        <button
+                            key={member.id}
+                            className={classNames(styles.squadMember, { [styles.selected]: member.id === playerUnit?.id })}
+                            onClick={() => selectUnit(member.id)}
+                        >
+                            <span>{member.name}</span>
+                            <span>HP {member.status.hp} · AP {member.status.ap.toFixed(1)}</span>
+                            {queuedCount(member.id) > 0 && <span className={styles.ready}>Ready</span>}
+                        </button>
+                    ))}
+                </div>
             </div>
         </div>
     );
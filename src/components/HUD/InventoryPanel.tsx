@@ -0,0 +1,138 @@
+import React, { useEffect } from 'react';
+import classNames from 'classnames';
+import { useGameStore } from '../../core/store';
+import { DROP_COST, EQUIP_COST, ITEMS, MAX_SLOTS, MAX_WEIGHT, PICKUP_COST, getInventoryWeight } from '../../core/items';
+import type { ActionRequest, ItemDefinition, Unit } from '../../core/types';
+import styles from './InventoryPanel.module.css';
+
+interface InventoryPanelProps {
+    unit: Unit;
+    canAct: boolean; // Decision phase (unit is placed where its queued steps end)
+    onClose: () => void;
+}
+
+export const InventoryPanel: React.FC<InventoryPanelProps> = ({ unit, canAct, onClose }) => {
+    const { queueAction, groundItems, targetingItemId, setTargetingItem } = useGameStore();
+    const inventory = unit.inventory;
+
+    // Closing the bag abandons a throw in progress
+    useEffect(() => () => setTargetingItem(null), [setTargetingItem]);
+
+    const itemsHere = groundItems.filter(g =>
+        g.position.x === unit.position.x && g.position.y === unit.position.y && g.position.floor === unit.position.floor
+    );
+
+    const queue = (request: Omit<ActionRequest, 'unitId' | 'status'>) => {
+        if (unit.status.ap < request.cost) {
+            alert(`Not enough AP (${request.cost} needed)`);
+            return;
+        }
+        queueAction({ ...request, unitId: unit.id, status: 'QUEUED' });
+    };
+
+    const handleUse = (def: ItemDefinition) => {
+        if (def.category === 'NOISEMAKER') {
+            // Target tile is picked on the grid
+            if (unit.status.ap < (def.useCost ?? 0)) {
+                alert(`Not enough AP (${def.useCost} needed)`);
+                return;
+            }
+            setTargetingItem(targetingItemId === def.id ? null : def.id);
+            return;
+        }
+        queue({ type: 'USE', itemId: def.id, cost: def.useCost ?? 0 });
+    };
+
+    const weight = inventory ? getInventoryWeight(inventory) : 0;
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>
+                <span>가방</span>
+                <button className={styles.closeButton} onClick={onClose}>×</button>
+            </div>
+
+            {!inventory ? (
+                <div className={styles.empty}>가방이 없다</div>
+            ) : (
+                <>
+                    <div className={styles.capacity}>
+                        무게 {weight.toFixed(1)} / {MAX_WEIGHT} · 칸 {inventory.items.length} / {MAX_SLOTS}
+                    </div>
+
+                    {inventory.items.length === 0 && <div className={styles.empty}>비어 있음</div>}
+
+                    {inventory.items.map((stack, i) => {
+                        const def = ITEMS[stack.itemId];
+                        if (!def) return null;
+                        const isEquipped = inventory.equippedWeapon === def.id;
+
+                        return (
+                            <div key={i} className={classNames(styles.item, { [styles.equipped]: isEquipped })} title={def.description}>
+                                <div className={styles.itemName}>
+                                    {def.name}{stack.quantity > 1 && ` x${stack.quantity}`}
+                                    {isEquipped && <span className={styles.tag}>장착중</span>}
+                                </div>
+                                <div className={styles.itemButtons}>
+                                    {def.category === 'WEAPON' && (
+                                        <button
+                                            disabled={!canAct}
+                                            onClick={() => queue({ type: 'EQUIP', itemId: isEquipped ? undefined : def.id, cost: EQUIP_COST })}
+                                        >
+                                            {isEquipped ? '해제' : '장착'} ({EQUIP_COST})
+                                        </button>
+                                    )}
+                                    {def.category === 'CONSUMABLE' && (
+                                        <button disabled={!canAct} onClick={() => handleUse(def)}>
+                                            사용 ({def.useCost})
+                                        </button>
+                                    )}
+                                    {def.category === 'NOISEMAKER' && (
+                                        <button
+                                            className={classNames({ [styles.active]: targetingItemId === def.id })}
+                                            disabled={!canAct}
+                                            onClick={() => handleUse(def)}
+                                        >
+                                            던지기 ({def.useCost})
+                                        </button>
+                                    )}
+                                    <button disabled={!canAct} onClick={() => queue({ type: 'DROP', itemId: def.id, cost: DROP_COST })}>
+                                        버리기 ({DROP_COST})
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {targetingItemId && (
+                        <div className={styles.hint}>
+                            던질 곳을 선택하세요
+                            <button onClick={() => setTargetingItem(null)}>취소</button>
+                        </div>
+                    )}
+
+                    {itemsHere.length > 0 && (
+                        <>
+                            <div className={styles.section}>바닥</div>
+                            {itemsHere.map((g, i) => {
+                                const def = ITEMS[g.item.itemId];
+                                return (
+                                    <div key={i} className={styles.item} title={def?.description}>
+                                        <div className={styles.itemName}>
+                                            {def?.name ?? g.item.itemId}{g.item.quantity > 1 && ` x${g.item.quantity}`}
+                                        </div>
+                                        <div className={styles.itemButtons}>
+                                            <button disabled={!canAct} onClick={() => queue({ type: 'PICKUP', itemId: g.item.itemId, cost: PICKUP_COST })}>
+                                                줍기 ({PICKUP_COST})
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
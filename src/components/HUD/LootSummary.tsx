@@ -0,0 +1,49 @@
+import React from 'react';
+import { useGameStore } from '../../core/store';
+import { ITEMS } from '../../core/items';
+import { CONTAINER_KINDS } from '../../core/loot';
+import type { ItemStack } from '../../core/types';
+import styles from './LootSummary.module.css';
+
+const ItemList: React.FC<{ items: ItemStack[] }> = ({ items }) => (
+    <ul className={styles.list}>
+        {items.map((stack, i) => (
+            <li key={i} title={ITEMS[stack.itemId]?.description}>
+                {ITEMS[stack.itemId]?.name ?? stack.itemId}{stack.quantity > 1 && ` x${stack.quantity}`}
+            </li>
+        ))}
+    </ul>
+);
+
+export const LootSummary: React.FC = () => {
+    const { lootSummary, setLootSummary } = useGameStore();
+    if (!lootSummary) return null;
+
+    const { kind, found, leftBehind } = lootSummary;
+
+    return (
+        <div className={styles.panel}>
+            <div className={styles.header}>수색 결과: {CONTAINER_KINDS[kind].name}</div>
+
+            {found.length === 0 && leftBehind.length === 0 && (
+                <div className={styles.empty}>아무것도 없다</div>
+            )}
+
+            {found.length > 0 && (
+                <>
+                    <div className={styles.section}>획득</div>
+                    <ItemList items={found} />
+                </>
+            )}
+
+            {leftBehind.length > 0 && (
+                <>
+                    <div className={styles.section}>남김 (가방이 가득 참)</div>
+                    <ItemList items={leftBehind} />
+                </>
+            )}
+
+            <button className={styles.closeButton} onClick={() => setLootSummary(null)}>닫기</button>
+        </div>
+    );
+};
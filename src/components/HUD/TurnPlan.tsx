@@ -0,0 +1,69 @@
+import React from 'react';
+import { useGameStore } from '../../core/store';
+import { ITEMS } from '../../core/items';
+import { CONTAINER_KINDS } from '../../core/loot';
+import { getPlanBudget, getUnitActions } from '../../core/planning';
+import type { Action, Unit } from '../../core/types';
+import styles from './TurnPlan.module.css';
+
+interface TurnPlanProps {
+    unit: Unit;
+    canEdit: boolean;
+}
+
+// The survivor's steps for this turn, in order; any step can be dropped or moved
+export const TurnPlan: React.FC<TurnPlanProps> = ({ unit, canEdit }) => {
+    const { actionQueue, units, containers, removeAction, moveAction } = useGameStore();
+    const steps = getUnitActions(actionQueue, unit.id);
+    if (steps.length === 0) return null;
+
+    const describe = (action: Action): string => {
+        const itemName = action.itemId ? ITEMS[action.itemId]?.name ?? action.itemId : '';
+        switch (action.type) {
+            case 'MOVE':
+                return `이동 (${action.target?.x},${action.target?.y} ${(action.target?.floor ?? 0) + 1}F)`;
+            case 'CLIMB':
+                return '계단 이용';
+            case 'ATTACK':
+                return `공격: ${(action.targetUnitId && units[action.targetUnitId]?.name) ?? '?'}`;
+            case 'USE':
+                return `사용: ${itemName}`;
+            case 'DROP':
+                return `버리기: ${itemName}`;
+            case 'EQUIP':
+                return action.itemId ? `장착: ${itemName}` : '장착 해제';
+            case 'PICKUP':
+                return `줍기: ${itemName}`;
+            case 'SEARCH': {
+                const container = containers.find(c =>
+                    c.position.x === action.target?.x && c.position.y === action.target?.y && c.position.floor === action.target?.floor
+                );
+                return `수색${container ? `: ${CONTAINER_KINDS[container.kind].name}` : ''}`;
+            }
+            default:
+                return action.type;
+        }
+    };
+
+    const budget = getPlanBudget(unit, actionQueue);
+
+    return (
+        <div className={styles.plan}>
+            <div className={styles.header}>계획 ({steps.length})</div>
+            <ol className={styles.list}>
+                {steps.map((action, i) => (
+                    <li key={action.id} className={styles.step}>
+                        <span className={styles.label}>{describe(action)}</span>
+                        <span className={styles.cost}>{action.cost} AP</span>
+                        <button className={styles.stepButton} onClick={() => moveAction(action.id, -1)} disabled={!canEdit || i === 0} title="앞으로">↑</button>
+                        <button className={styles.stepButton} onClick={() => moveAction(action.id, 1)} disabled={!canEdit || i === steps.length - 1} title="뒤로">↓</button>
+                        <button className={styles.stepButton} onClick={() => removeAction(action.id)} disabled={!canEdit} title="삭제">×</button>
+                    </li>
+                ))}
+            </ol>
+            <div className={styles.total}>
+                사용 {(budget - unit.status.ap).toFixed(1)} / {budget.toFixed(1)} AP
+            </div>
+        </div>
+    );
+};
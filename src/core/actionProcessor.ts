@@ -1,14 +1,15 @@
-import type { Action, GameState, Unit } from './types';
 import { useGameStore } from './store';
+import { applyEvent, resolveTurn } from './engine';
+import type { TurnEvent } from './engine';
 
 /**
  * Action Processor Module
  * -----------------------
- * Handles the Execution Phase of the turn.
- * - Processes the Action Queue sequentially.
- * - Manages Animations (Visual delays).
- * - Enforces Game Rules during execution (Range checks, Collision checks).
- * - Updates Game State via Store.
+ * Handles the Execution Phase of the turn in the browser.
+ * - Resolves the Action Queue with the headless engine (resolveTurn).
+ * - Plays the resulting events back tick by tick: everything within a tick
+ *   appears at once, followed by one animation delay.
+ * - Commits the engine result to the Store once playback is done.
  */
 
 const STEP_DELAY_MS = 300; // Matches CSS transition duration
@@ -16,158 +17,115 @@ const STEP_DELAY_MS = 300; // Matches CSS transition duration
 // Helper to wait (for animation sync)
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-export const executeTurn = async () => {
-    const store = useGameStore.getState();
-    const queue = [...store.actionQueue]; // Copy queue
-
-    if (queue.length === 0) {
-        endExecution();
-        return;
-    }
-
-    // Sort queue if needed (e.g. by initiative). For now, FIFO.
-    // We process all actions. Since it's WEGO, simultaneous is ideal, 
-    // but for Phase 1 we can do sequential or interleaved.
-    // Let's do sequential for simplicity of "Step by Step" verification.
-
-    for (const action of queue) {
-        if (action.type === 'MOVE') {
-            await executeMoveAction(action);
-        } else if (action.type === 'ATTACK') {
-            await executeAttackAction(action);
-        } else if (action.type === 'CLIMB') {
-            await executeClimbAction(action);
-        }
-    }
-
-    // Clear queue strictly to prevent re-execution next turn
-    useGameStore.setState({ actionQueue: [] });
-
-    endExecution();
-};
-
-const executeMoveAction = async (action: Action) => {
-    const store = useGameStore.getState();
-    const unit = store.units[action.unitId];
-    if (!unit || !action.target) return;
-
-    const { findPath } = await import('./pathfinding');
-
-    const path = findPath(
-        unit.position,
-        action.target,
-        store.floor,
-        Object.values(store.units),
-        unit.id
-    );
-
-    if (!path) return;
-
-    for (let i = 1; i < path.length; i++) {
-        const nextPos = path[i];
-
-        // DYNAMIC COLLISION CHECK
-        const currentStore = useGameStore.getState();
-        const blocker = Object.values(currentStore.units).find(u =>
-            u.id !== unit.id &&
-            u.position.x === nextPos.x &&
-            u.position.y === nextPos.y &&
-            u.position.floor === nextPos.floor
-        );
-
-        if (blocker) {
-            const isDestination = (i === path.length - 1);
-
-            if (isDestination) {
-                console.log(`Unit ${unit.id} blocked at destination ${nextPos.x},${nextPos.y}`);
-                break;
+const nameOf = (unitId?: string) => (unitId && useGameStore.getState().units[unitId]?.name) ?? unitId ?? '?';
+
+const playEvent = (event: TurnEvent) => {
+    const apply = () => useGameStore.setState(state => applyEvent(state, event));
+
+    switch (event.type) {
+        case 'MOVE':
+            apply();
+            break;
+        case 'CLIMB':
+            console.log(`${event.unitId} Climbs to floor ${event.to.floor}`);
+            apply();
+            break;
+        case 'BLOCKED':
+            console.log(`Unit ${event.unitId} blocked${event.blockerId ? ` by ${event.blockerId}` : ''} at ${event.at.x},${event.at.y}`);
+            break;
+        case 'LOCKED':
+            console.log(`Unit ${event.unitId} cannot open the door at ${event.at.x},${event.at.y} (locked: ${event.lockId})`);
+            break;
+        case 'ATTACK':
+            console.log(`${event.unitId} ${event.sneak ? 'sneak-' : ''}attacks ${event.targetUnitId}: ${event.hit ? (event.critical ? 'critical hit!' : 'hit') : 'miss'}`);
+            if (event.ammoId) apply(); // Spends ammo
+            break;
+        case 'KNOCKBACK':
+            console.log(`${event.unitId} is knocked back to ${event.to.x},${event.to.y}`);
+            apply();
+            break;
+        case 'ATTACK_FAILED':
+            console.log(`${event.unitId} cannot attack ${event.targetUnitId} (${event.reason})`);
+            break;
+        case 'DAMAGE':
+            apply();
+            useGameStore.getState().addDamageEvent(event.position, event.amount);
+            break;
+        case 'DEATH':
+            console.log(`Unit ${event.unitId} died.`);
+            useGameStore.getState().addLogEntry('COMBAT', `${nameOf(event.unitId)} 사망`);
+            apply();
+            break;
+        case 'SOUND':
+            if (event.sound.kind === 'SCREAM') {
+                console.log(`${event.sound.sourceUnitId} screams!`);
+                useGameStore.getState().addLogEntry('ALERT', `${nameOf(event.sound.sourceUnitId)}의 비명이 울려 퍼진다`);
             }
-
-            // Pass-through Logic
-            if (unit.type === 'PLAYER' && blocker.type === 'ENEMY') {
-                // Allow pass through
-            } else {
-                console.log(`Unit ${unit.id} blocked by ${blocker.id}`);
-                break;
+            apply();
+            break;
+        case 'ITEM_USED':
+            console.log(`${event.unitId} uses ${event.itemId}`);
+            apply();
+            break;
+        case 'HEAL':
+        case 'EQUIP':
+        case 'DROP':
+        case 'PICKUP':
+            apply();
+            break;
+        case 'ITEM_FAILED':
+            console.log(`${event.unitId} cannot use ${event.itemId ?? 'item'} (${event.reason})`);
+            break;
+        case 'SEARCH_PROGRESS':
+            apply();
+            break;
+        case 'SEARCH_INTERRUPTED':
+            console.log(`${event.unitId} stops searching${event.containerId ? ` ${event.containerId}` : ''} (${event.reason})`);
+            break;
+        case 'ALERT':
+            console.log(`${event.unitId} alerts ${event.alertedIds.join(', ')} to ${event.target.x},${event.target.y}`);
+            useGameStore.getState().addLogEntry('ALERT', `${nameOf(event.unitId)}의 울음을 듣고 적 ${event.alertedIds.length}마리가 몰려온다`);
+            apply();
+            break;
+        case 'LOOT': {
+            apply();
+            const { units, containers, setLootSummary } = useGameStore.getState();
+            const container = containers.find(c => c.id === event.containerId);
+            if (units[event.unitId]?.faction === 'PLAYER' && container) {
+                setLootSummary({
+                    unitId: event.unitId, containerId: event.containerId, kind: container.kind,
+                    found: event.found, leftBehind: event.leftBehind
+                });
             }
+            break;
         }
-
-        store.updateUnitPosition(unit.id, nextPos);
-        await wait(STEP_DELAY_MS);
     }
 };
 
-const executeAttackAction = async (action: Action) => {
-    const store = useGameStore.getState();
-    if (!action.targetUnitId) return;
-
-    const attacker = store.units[action.unitId];
-    const target = store.units[action.targetUnitId];
-
-    if (!attacker || !target) return;
-
-    // Check Range and Floor
-    if (attacker.position.floor !== target.position.floor) {
-        console.log(`${attacker.id} cannot attack ${target.id} (Different Floor)`);
-        return;
-    }
-
-    const dist = Math.abs(attacker.position.x - target.position.x) + Math.abs(attacker.position.y - target.position.y);
-    if (dist > 1) {
-        console.log(`${attacker.id} missed attack on ${target.id} (Out of range)`);
-        return;
-    }
-
-    console.log(`${attacker.id} attacks ${target.id}!`);
-
-    // Animation Delay (Swing)
-    await wait(STEP_DELAY_MS);
-
-    // Apply Damage
-    // For now fixed damage or based on something? 
-    // User said "Attack Cost 3AP". Did not specify damage. 
-    // Let's assume 10 damage for now (Zombie kills player in 10 hits? Player HP 100).
-    // Or Zombie HP 3. Player punch?
-    // Let's use a base damage.
-    const damage = 1; // Updated to 1 as requested
-    store.applyDamage(target.id, damage);
-
-    // Hit Delay
-    await wait(STEP_DELAY_MS);
-};
+// Ticks with a swing or a hit linger a little longer so the damage can be read
+const tickDelay = (events: TurnEvent[]) =>
+    events.some(e => e.type === 'ATTACK') ? STEP_DELAY_MS * 2 : STEP_DELAY_MS;
 
-const executeClimbAction = async (action: Action) => {
+export const executeTurn = async () => {
     const store = useGameStore.getState();
-    const unit = store.units[action.unitId];
-    if (!unit) return;
+    const { state: resolved, events } = resolveTurn(store, store.actionQueue);
 
-    const { x, y, floor } = unit.position;
-    const tile = store.floor[floor][x][y];
+    const ticks = new Map<number, TurnEvent[]>();
+    events.forEach(e => ticks.set(e.tick, [...(ticks.get(e.tick) ?? []), e]));
 
-    let targetFloor = floor;
-    if (tile.type === 'STAIRS_UP') targetFloor = floor + 1;
-    else if (tile.type === 'STAIRS_DOWN') targetFloor = floor - 1;
-    else {
-        console.log("Not on stairs!");
-        return;
+    for (const tickEvents of ticks.values()) {
+        tickEvents.forEach(playEvent);
+        await wait(tickDelay(tickEvents));
     }
 
-    if (store.floor[targetFloor]) {
-        console.log(`${unit.id} Climbs to floor ${targetFloor}`);
-        // Animation delay
-        await wait(STEP_DELAY_MS);
-
-        store.updateUnitPosition(unit.id, { x, y, floor: targetFloor });
+    // Playback applied the same events; adopt the engine result as the source of truth
+    // while keeping UI-owned fields that may have changed during the animation.
+    const { debugFow, debugAi, damageEvents, lootSummary, eventLog, replay, selectedUnitId, network } = useGameStore.getState();
+    useGameStore.setState({ ...resolved, debugFow, debugAi, damageEvents, lootSummary, eventLog, replay, selectedUnitId, network });
 
-        await wait(STEP_DELAY_MS);
-    } else {
-        console.log("Invalid floor target");
-    }
+    endExecution();
 };
 
 const endExecution = () => {
-    const store = useGameStore.getState();
-    store.clearActionQueue();
-    store.setPhase('DECISION');
-    useGameStore.setState({ timer: 5.0 }); // Reset timer
+    useGameStore.getState().setPhase('DECISION');
 };
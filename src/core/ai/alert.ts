@@ -0,0 +1,30 @@
+import type { Coordinate, GameState, Unit } from '../types';
+import { SOUND_VOLUMES, createHearing, createSound } from '../sound';
+import { key } from './blackboard';
+
+/**
+ * Horde Alerting
+ * --------------
+ * An enemy that has just pinned a survivor down growls (an ALERT action) to pass the
+ * position on. Allies that hear it, or stand right next to it, wake up and SEARCH toward
+ * the shared position when the alert resolves (engine.ts).
+ */
+
+export const ALERT_COST = 1;
+const ALERT_PROXIMITY = 2; // Chebyshev distance at which even a sleeper is nudged awake
+
+// Allies a growl from `broadcaster` would send after `target` (those already on it are skipped)
+export const getAlertedAllies = (gameState: GameState, broadcaster: Unit, target: Coordinate): string[] => {
+    const growl = createSound(gameState.floor, 'GROWL', broadcaster.position, SOUND_VOLUMES.GROWL, broadcaster.id);
+    const hear = createHearing(gameState.floor, growl ? [growl] : []);
+
+    return Object.values(gameState.units).filter(ally => {
+        if (ally.id === broadcaster.id || ally.faction !== broadcaster.faction || ally.status.hp <= 0) return false;
+        if (ally.position.floor !== broadcaster.position.floor || ally.memory?.state === 'CHASE') return false;
+        const known = ally.memory?.lastKnownTargetPos;
+        if (ally.memory?.state === 'SEARCH' && known && key(known) === key(target)) return false;
+
+        const isClose = Math.max(Math.abs(ally.position.x - broadcaster.position.x), Math.abs(ally.position.y - broadcaster.position.y)) <= ALERT_PROXIMITY;
+        return isClose || hear(ally) !== null;
+    }).map(ally => ally.id);
+};
@@ -0,0 +1,63 @@
+import type { Action, Coordinate, GameState, Unit } from '../types';
+import type { DijkstraMap } from '../dijkstraMap';
+import type { HeardSound, createHearing } from '../sound';
+import type { EnemyBehavior } from '../enemies';
+import type { PRNG } from '../rng';
+
+/**
+ * AI Blackboard
+ * -------------
+ * What the AI knows while it plans a turn.
+ * - TurnContext is shared by the whole horde: reservations, flow fields, the sounds of the
+ *   last execution, and the actions planned so far.
+ * - Blackboard is per unit: what its sensors picked up this turn, the AP it has left to plan
+ *   with, where its queued actions leave it, and a trace of the nodes its tree visited.
+ */
+
+export type TurnContext = {
+    state: GameState;
+    rng: PRNG;
+    units: Unit[];
+    players: Unit[];
+    occupied: Set<string>;
+    reserved: Set<string>; // No two enemies plan to end on the same tile
+    alerted: Set<string>; // Allies someone already plans to alert this turn
+    predictions: Map<string, Coordinate>; // Where each player will be after its queued MOVE
+    hear: ReturnType<typeof createHearing>;
+    getFlowField: (goal: Coordinate) => DijkstraMap;
+    getFleeField: (threat: Coordinate) => DijkstraMap;
+    getChaseField: (goal: Coordinate, noise: Coordinate | null) => DijkstraMap; // Towards goal, pulled aside by a noise
+    closingIn: Map<string, Coordinate[]>; // Target id -> where its attackers plan to end up
+    actions: Action[];
+};
+
+export type Blackboard = {
+    unit: Unit; // Memory is updated in place
+    behavior: EnemyBehavior;
+    target: Unit;
+    predictedTargetPos: Coordinate;
+    targetDist: number; // Manhattan, Infinity on another floor
+    isVisible: boolean;
+    heard: HeardSound | null;
+    heardPrey: boolean; // A survivor's noise, for those that hunt by ear
+    touching: boolean;
+    wasChasing: boolean;
+    ap: number; // Left to plan with
+    position: Coordinate; // Where the queued actions leave the unit
+    climbing: boolean;
+    trace: string[];
+};
+
+export const key = (c: Coordinate) => `${c.x},${c.y},${c.floor}`;
+
+// Manhattan Distance between two coordinates (Infinity across floors)
+export const getDist = (a: Coordinate, b: Coordinate) =>
+    a.floor === b.floor ? Math.abs(a.x - b.x) + Math.abs(a.y - b.y) : Infinity;
+
+export const isAware = (bb: Blackboard) => bb.unit.memory?.state === 'CHASE';
+
+// Adds an action to the turn and pays for it out of the unit's planning budget
+export const queueAction = (ctx: TurnContext, bb: Blackboard, action: Omit<Action, 'id' | 'unitId' | 'status'>) => {
+    ctx.actions.push({ ...action, id: ctx.rng.nextId('action'), unitId: bb.unit.id, status: 'QUEUED' });
+    bb.ap -= action.cost;
+};
@@ -0,0 +1,124 @@
+import type { GameState, Action, Coordinate, Unit } from '../types';
+import { blendMaps, createDijkstraMap, createFleeMap, getMapValue } from '../dijkstraMap';
+import type { DijkstraMap } from '../dijkstraMap';
+import { createHearing } from '../sound';
+import type { PRNG } from '../rng';
+import type { TurnContext } from './blackboard';
+import { key } from './blackboard';
+import { createBlackboard } from './sensors';
+import { getBehaviorTree } from './trees';
+
+export { ALERT_COST, getAlertedAllies } from './alert';
+export { BEHAVIOR_TREES } from './trees';
+export type { Blackboard, TurnContext } from './blackboard';
+export type { BehaviorNode, NodeStatus } from './nodes';
+
+/**
+ * AI Logic Module
+ * ----------------
+ * Responsible for determining Enemy actions based on the current GameState.
+ * Each enemy, in turn:
+ * 1. Sensors fill its blackboard and update its AIMemory state machine (sensors.ts)
+ * 2. Its archetype's behavior tree queues its actions (trees.ts, built from nodes.ts)
+ * Shared by the whole horde for the turn (blackboard.ts): tile reservations (no two enemies
+ * plan to end on the same tile), predicted player positions, the sounds of the last execution,
+ * and Dijkstra maps (one per goal) that enemies roll downhill on instead of each running its own A*.
+ * The maps run through the stairs, so the hunt carries on across floors.
+ * A chaser that hears a noise elsewhere follows its goal's map blended with the noise's one.
+ */
+
+// Weight of a heard noise against the goal in a chaser's field. Below 1, so the
+// goal stays the only low point: the noise bends the route, it does not end it.
+const NOISE_PULL = 0.3;
+
+// Where the target will be after its queued MOVE (if that tile is free)
+const predictPosition = (gameState: GameState, units: Unit[], target: Unit): Coordinate => {
+    const playerAction = gameState.actionQueue.find(a => a.unitId === target.id && a.type === 'MOVE');
+    if (!playerAction || !playerAction.target) return target.position;
+
+    // Validate prediction: Don't predict moves into obstacles/units
+    const isBlocked = units.some(u => key(u.position) === key(playerAction.target!) && u.id !== target.id);
+    return isBlocked ? target.position : playerAction.target;
+};
+
+const createTurnContext = (gameState: GameState, rng: PRNG): TurnContext => {
+    const units = Object.values(gameState.units);
+    const players = units.filter(u => u.type === 'PLAYER');
+    const predictions = new Map(players.map(p => [p.id, predictPosition(gameState, units, p)]));
+
+    const reserved = new Set<string>();
+    players.forEach(p => reserved.add(key(p.position)));
+    predictions.forEach(pos => reserved.add(key(pos)));
+
+    // Fields built lazily, once per goal
+    const cached = (build: (at: Coordinate) => DijkstraMap) => {
+        const fields = new Map<string, DijkstraMap>();
+        return (at: Coordinate) => {
+            let field = fields.get(key(at));
+            if (!field) {
+                field = build(at);
+                fields.set(key(at), field);
+            }
+            return field;
+        };
+    };
+    const getFlowField = cached(goal => createDijkstraMap(gameState.floor, [{ position: goal }]));
+    const getFleeField = cached(threat => createFleeMap(gameState.floor, getFlowField(threat)));
+    const chaseFields = new Map<string, DijkstraMap>();
+    const getChaseField = (goal: Coordinate, noise: Coordinate | null) => {
+        const toGoal = getFlowField(goal);
+        // A noise that cannot be reached would leave nothing to follow
+        if (!noise || key(noise) === key(goal) || getMapValue(getFlowField(noise), goal) === Infinity) return toGoal;
+
+        const id = `${key(goal)}|${key(noise)}`;
+        let field = chaseFields.get(id);
+        if (!field) {
+            field = blendMaps(gameState.floor, [
+                { map: toGoal, weight: 1 },
+                { map: getFlowField(noise), weight: NOISE_PULL }
+            ]);
+            chaseFields.set(id, field);
+        }
+        return field;
+    };
+
+    return {
+        state: gameState,
+        rng,
+        units,
+        players,
+        occupied: new Set(units.map(u => key(u.position))),
+        reserved,
+        alerted: new Set(),
+        predictions,
+        // Sounds made during the last execution, each propagated once for all listeners
+        hear: createHearing(gameState.floor, gameState.sounds),
+        getFlowField,
+        getFleeField,
+        getChaseField,
+        closingIn: new Map(),
+        actions: [],
+    };
+};
+
+// The horde's actions for the turn, and the nodes each enemy's tree visited to get there
+export const planEnemyTurn = (gameState: GameState, rng: PRNG): { actions: Action[]; traces: Record<string, string[]> } => {
+    const ctx = createTurnContext(gameState, rng);
+    const enemies = ctx.units.filter(u => u.type === 'ENEMY');
+    const traces: Record<string, string[]> = {};
+
+    enemies.forEach(enemy => {
+        if (enemy.status.hp <= 0) return;
+        const bb = createBlackboard(enemy, ctx);
+        if (!bb) return;
+
+        getBehaviorTree(enemy).tick(bb, ctx);
+
+        // Staying put: keep others from planning to end here
+        if (key(bb.position) === key(enemy.position)) ctx.reserved.add(key(enemy.position));
+
+        traces[enemy.id] = bb.trace;
+    });
+
+    return { actions: ctx.actions, traces };
+};
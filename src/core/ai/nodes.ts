@@ -0,0 +1,213 @@
+import type { Coordinate } from '../types';
+import { followDownhill, getMapValue } from '../dijkstraMap';
+import type { DijkstraMap } from '../dijkstraMap';
+import { ATTACK_COST } from '../combat';
+import { CLIMB_COST, getClimbTarget } from '../pathfinding';
+import { isLockedFor } from '../items';
+import { SCREAM_COST } from '../enemies';
+import type { Blackboard, TurnContext } from './blackboard';
+import { getDist, isAware, key, queueAction } from './blackboard';
+import { ALERT_COST, getAlertedAllies } from './alert';
+
+/**
+ * Behavior Tree Nodes
+ * -------------------
+ * Small reusable pieces that behavior trees (trees.ts) are composed from.
+ * - Composites: selector (first child that succeeds), sequence (every child in turn),
+ *   optional (runs a child, never fails).
+ * - Leaves queue actions for the unit and succeed if they did anything.
+ * Every node visited is written to the blackboard's trace as "Name: SUCCESS/FAILURE".
+ */
+
+export type NodeStatus = 'SUCCESS' | 'FAILURE';
+
+export type BehaviorNode = {
+    name: string;
+    tick: (bb: Blackboard, ctx: TurnContext) => NodeStatus;
+};
+
+const FLANK_SPREAD = 2; // Chebyshev distance a flanker keeps from the others closing in
+const FLEE_DISTANCE = 4; // A hurt coward runs from a survivor this close
+
+const node = (name: string, run: (bb: Blackboard, ctx: TurnContext) => boolean): BehaviorNode => ({
+    name,
+    tick: (bb, ctx) => {
+        const at = bb.trace.push(name) - 1; // Parents are listed before their children
+        const status: NodeStatus = run(bb, ctx) ? 'SUCCESS' : 'FAILURE';
+        bb.trace[at] = `${name}: ${status}`;
+        return status;
+    }
+});
+
+// --- Composites ---
+
+export const selector = (name: string, ...children: BehaviorNode[]): BehaviorNode =>
+    node(name, (bb, ctx) => children.some(child => child.tick(bb, ctx) === 'SUCCESS'));
+
+export const sequence = (name: string, ...children: BehaviorNode[]): BehaviorNode =>
+    node(name, (bb, ctx) => children.every(child => child.tick(bb, ctx) === 'SUCCESS'));
+
+export const optional = (child: BehaviorNode): BehaviorNode =>
+    node(`${child.name}?`, (bb, ctx) => {
+        child.tick(bb, ctx);
+        return true;
+    });
+
+// --- Movement helpers ---
+
+const getPathCost = (from: Coordinate, path: Coordinate[]) =>
+    path.reduce((total, step, i) => {
+        const prev = i === 0 ? from : path[i - 1];
+        return total + (prev.x !== step.x && prev.y !== step.y ? 1.5 : 1.0);
+    }, 0);
+
+// Rolls downhill on a field as far as the AP allows, then takes the stairs if the field runs through them
+const followField = (bb: Blackboard, ctx: TurnContext, field: DijkstraMap, allowClimb: boolean): boolean => {
+    const { path } = followDownhill(field, ctx.state.floor, bb.position, bb.ap, at => ctx.occupied.has(key(at)));
+
+    // Back off until the end tile is not claimed by someone else
+    while (path.length > 0 && ctx.reserved.has(key(path[path.length - 1]))) {
+        path.pop();
+    }
+    if (path.length > 0) {
+        const target = path[path.length - 1];
+        ctx.reserved.add(key(target));
+        queueAction(ctx, bb, { type: 'MOVE', target, cost: getPathCost(bb.position, path) });
+        bb.position = target;
+    }
+
+    // Standing on stairs the field runs through: take them, like the player does
+    const arrival = allowClimb ? getClimbTarget(ctx.state.floor, bb.position) : null;
+    if (arrival && getMapValue(field, arrival) < getMapValue(field, bb.position) &&
+        bb.ap >= CLIMB_COST && !ctx.reserved.has(key(arrival))) {
+        ctx.reserved.add(key(arrival));
+        queueAction(ctx, bb, { type: 'CLIMB', target: { ...bb.position }, cost: CLIMB_COST });
+        bb.position = arrival;
+        bb.climbing = true;
+    }
+    return path.length > 0 || bb.climbing;
+};
+
+const approach = (bb: Blackboard, ctx: TurnContext, goal: Coordinate) =>
+    followField(bb, ctx, ctx.getFlowField(goal), true);
+
+// Towards the goal, drifting towards the loudest noise heard on the way
+const hunt = (bb: Blackboard, ctx: TurnContext, goal: Coordinate) =>
+    followField(bb, ctx, ctx.getChaseField(goal, bb.heard?.sound.origin ?? null), true);
+
+// Combo attack at the end of a move, if the target will be within reach
+const strikeAfterMove = (bb: Blackboard, ctx: TurnContext) => {
+    if (!bb.climbing && bb.ap >= ATTACK_COST && getDist(bb.position, bb.predictedTargetPos) <= 1) {
+        queueAction(ctx, bb, { type: 'ATTACK', targetUnitId: bb.target.id, cost: ATTACK_COST });
+    }
+};
+
+const claimApproach = (bb: Blackboard, ctx: TurnContext) => {
+    ctx.closingIn.set(bb.target.id, [...(ctx.closingIn.get(bb.target.id) ?? []), bb.position]);
+};
+
+// --- Leaves ---
+
+// The moment a Screamer spots prey, before doing anything else
+export const scream = node('Scream', (bb, ctx) => {
+    if (!isAware(bb) || bb.wasChasing || bb.ap < SCREAM_COST) return false;
+    queueAction(ctx, bb, { type: 'SCREAM', cost: SCREAM_COST });
+    return true;
+});
+
+// Share a fresh sighting with the pack
+export const alert = node('Alert', (bb, ctx) => {
+    if (!isAware(bb) || !(bb.isVisible || bb.touching || bb.heardPrey) || bb.ap < ALERT_COST) return false;
+
+    const target = bb.unit.memory!.lastKnownTargetPos!;
+    const allies = getAlertedAllies(ctx.state, bb.unit, target).filter(id => !ctx.alerted.has(id));
+    if (allies.length === 0) return false;
+
+    allies.forEach(id => ctx.alerted.add(id));
+    queueAction(ctx, bb, { type: 'ALERT', target: { ...target }, cost: ALERT_COST });
+    return true;
+});
+
+// Strike from where it stands (only an enemy that knows where the target is will)
+export const attack = node('Attack', (bb, ctx) => {
+    if (!isAware(bb) || bb.targetDist !== 1 || bb.ap < ATTACK_COST || getDist(bb.position, bb.predictedTargetPos) > 1) return false;
+    queueAction(ctx, bb, { type: 'ATTACK', targetUnitId: bb.target.id, cost: ATTACK_COST });
+    claimApproach(bb, ctx);
+    return true;
+});
+
+// At the last known position (bent towards any other noise heard), striking on arrival
+export const chase = node('Chase', (bb, ctx) => {
+    const goal = bb.unit.memory?.lastKnownTargetPos;
+    if (!isAware(bb) || !goal || !hunt(bb, ctx, goal)) return false;
+    strikeAfterMove(bb, ctx);
+    claimApproach(bb, ctx);
+    return true;
+});
+
+// Come at a seen target from the side the others are not already closing in from
+export const flank = node('Flank', (bb, ctx) => {
+    const others = ctx.closingIn.get(bb.target.id) ?? [];
+    if (!isAware(bb) || !bb.isVisible || others.length === 0) return false;
+
+    const around = bb.predictedTargetPos;
+    const spread = (at: Coordinate) => Math.min(...others.map(o => Math.max(Math.abs(o.x - at.x), Math.abs(o.y - at.y))));
+    const sides = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+        .map(([dx, dy]) => ({ x: around.x + dx, y: around.y + dy, floor: around.floor }))
+        .filter(at =>
+            ctx.state.floor[at.floor]?.[at.x]?.[at.y]?.metadata.walkable && !isLockedFor(ctx.state.floor, at, bb.unit) &&
+            !ctx.occupied.has(key(at)) && !ctx.reserved.has(key(at)) && spread(at) >= FLANK_SPREAD
+        )
+        .sort((a, b) => spread(b) - spread(a));
+    if (sides.length === 0 || !approach(bb, ctx, sides[0])) return false;
+
+    strikeAfterMove(bb, ctx);
+    claimApproach(bb, ctx);
+    return true;
+});
+
+// Head for the last noise or sighting
+export const investigate = node('Investigate', (bb, ctx) => {
+    const goal = bb.unit.memory?.lastKnownTargetPos;
+    return bb.unit.memory?.state === 'SEARCH' && !!goal && hunt(bb, ctx, goal);
+});
+
+// Back away from a survivor that got too close while hurt
+export const flee = node('Flee', (bb, ctx) => {
+    if (!isAware(bb) || bb.unit.status.hp >= bb.unit.status.maxHp || bb.targetDist > FLEE_DISTANCE) return false;
+    return followField(bb, ctx, ctx.getFleeField(bb.target.position), false);
+});
+
+// Hold the post; walk back to it after being drawn away
+export const guard = node('Guard', (bb, ctx) => {
+    const post = bb.unit.memory?.post;
+    if (bb.unit.memory?.state !== 'IDLE') return false;
+    if (post && key(post) !== key(bb.position)) approach(bb, ctx, post);
+    return true;
+});
+
+// A random step now and then
+export const wander = node('Wander', (bb, ctx) => {
+    if (bb.unit.memory?.state !== 'WANDER') return false;
+    const floorData = ctx.state.floor[bb.position.floor];
+
+    for (let i = 0; i < 3; i++) {
+        const dx = ctx.rng.range(-1, 1);
+        const dy = ctx.rng.range(-1, 1);
+        if (dx === 0 && dy === 0) continue;
+        const tx = bb.position.x + dx;
+        const ty = bb.position.y + dy;
+        const to = { x: tx, y: ty, floor: bb.position.floor };
+        const cost = dx !== 0 && dy !== 0 ? 1.5 : 1.0;
+
+        if (tx >= 0 && tx < floorData.length && ty >= 0 && ty < floorData[0].length &&
+            floorData[tx][ty].metadata.walkable && !isLockedFor(ctx.state.floor, to, bb.unit) && !ctx.occupied.has(key(to)) &&
+            !ctx.reserved.has(key(to)) && cost <= bb.ap) {
+            ctx.reserved.add(key(to));
+            queueAction(ctx, bb, { type: 'MOVE', target: to, cost });
+            bb.position = to;
+            return true;
+        }
+    }
+    return false;
+});
@@ -0,0 +1,117 @@
+import type { Unit } from '../types';
+import { canSee } from '../perception';
+import { getArchetype } from '../enemies';
+import type { Blackboard, TurnContext } from './blackboard';
+import { getDist, key } from './blackboard';
+
+/**
+ * AI Sensors
+ * ----------
+ * Fill a unit's blackboard at the start of its turn, then update its AIMemory state machine:
+ * - target: the closest survivor (same floor first; others can be tracked, not seen)
+ * - sight: line of sight within the facing cone (sleeping enemies cannot see)
+ * - hearing: the loudest sound of the last execution (its own side is ignored, except a scream)
+ * - touch: bumping into a survivor, for those that hunt by ear
+ */
+
+export type Sensor = (bb: Blackboard, ctx: TurnContext) => void;
+
+const senseSight: Sensor = (bb, ctx) => {
+    bb.isVisible = canSee(bb.unit, bb.target.position, ctx.state.floor);
+};
+
+const senseHearing: Sensor = (bb, ctx) => {
+    const isOwnSide = (unitId?: string) => !!unitId && ctx.state.units[unitId]?.faction === bb.unit.faction;
+    bb.heard = ctx.hear(bb.unit, sound => sound.kind !== 'SCREAM' && isOwnSide(sound.sourceUnitId), bb.behavior.hearingBonus);
+    // Hunting by ear: a survivor's noise pins them down like sight does
+    bb.heardPrey = !!(bb.behavior.huntsBySound && bb.heard?.sound.sourceUnitId && !isOwnSide(bb.heard.sound.sourceUnitId));
+};
+
+const senseTouch: Sensor = bb => {
+    bb.touching = !!bb.behavior.huntsBySound && bb.targetDist === 1 && bb.unit.memory?.state !== 'SLEEP';
+};
+
+export const SENSORS: Sensor[] = [senseSight, senseHearing, senseTouch];
+
+// --- State Machine ---
+const updateMemory = (bb: Blackboard, ctx: TurnContext) => {
+    const memory = bb.unit.memory!;
+
+    if (bb.isVisible || bb.touching) {
+        memory.lastKnownTargetPos = { ...bb.predictedTargetPos };
+        memory.state = 'CHASE';
+    } else if (bb.heardPrey && bb.heard) {
+        memory.lastKnownTargetPos = { ...bb.heard.sound.origin };
+        memory.state = 'CHASE';
+    } else if (bb.heard) {
+        // Investigate where the noise came from (wakes sleepers)
+        memory.lastKnownTargetPos = { ...bb.heard.sound.origin };
+        memory.state = 'SEARCH';
+    } else if (memory.state === 'CHASE') {
+        // Lost sight: if the target went up or down the stairs, follow to where it came out
+        const climb = ctx.state.sounds.find(s =>
+            s.kind === 'CLIMB' && s.sourceUnitId === bb.target.id && Math.abs(s.origin.floor - bb.unit.position.floor) === 1
+        );
+        if (climb) memory.lastKnownTargetPos = { ...climb.origin };
+        memory.state = 'SEARCH';
+    } else if (memory.state === 'SEARCH') {
+        if (memory.lastKnownTargetPos && key(bb.unit.position) === key(memory.lastKnownTargetPos)) {
+            // Nothing here: guards go back to their post, the rest roam
+            memory.lastKnownTargetPos = undefined;
+            memory.state = memory.post ? 'IDLE' : 'WANDER';
+        }
+    }
+};
+
+// Closest survivor, null when there is nobody left to hunt
+const pickTarget = (unit: Unit, players: Unit[]): Unit | null => {
+    const onFloor = players.filter(p => p.position.floor === unit.position.floor);
+    const candidates = onFloor.length > 0 ? onFloor : players;
+    if (candidates.length === 0) return null;
+
+    let target = candidates[0];
+    let minDist = getDist(unit.position, target.position);
+    for (let i = 1; i < candidates.length; i++) {
+        const d = getDist(unit.position, candidates[i].position);
+        if (d < minDist) {
+            minDist = d;
+            target = candidates[i];
+        }
+    }
+    return target;
+};
+
+export const createBlackboard = (unit: Unit, ctx: TurnContext): Blackboard | null => {
+    const target = pickTarget(unit, ctx.players);
+    if (!target || !ctx.state.floor[unit.position.floor]) return null;
+
+    // Init Memory
+    if (!unit.memory) unit.memory = { state: 'SLEEP' };
+    if (unit.memory.state === 'IDLE' && !unit.memory.post) unit.memory.post = { ...unit.position };
+
+    // Auto-wake if damaged (any damage)
+    if (unit.memory.state === 'SLEEP' && unit.status.hp < unit.status.maxHp) {
+        unit.memory.state = 'WANDER';
+    }
+
+    const bb: Blackboard = {
+        unit,
+        behavior: getArchetype(unit)?.behavior ?? {},
+        target,
+        predictedTargetPos: ctx.predictions.get(target.id) ?? target.position,
+        targetDist: getDist(unit.position, target.position),
+        isVisible: false,
+        heard: null,
+        heardPrey: false,
+        touching: false,
+        wasChasing: unit.memory.state === 'CHASE',
+        ap: unit.status.ap,
+        position: unit.position,
+        climbing: false,
+        trace: [],
+    };
+
+    SENSORS.forEach(sense => sense(bb, ctx));
+    updateMemory(bb, ctx);
+    return bb;
+};
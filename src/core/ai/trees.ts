@@ -0,0 +1,32 @@
+import type { EnemyArchetypeId, Unit } from '../types';
+import type { BehaviorNode } from './nodes';
+import { alert, attack, chase, flank, flee, guard, investigate, optional, scream, selector, sequence, wander } from './nodes';
+
+/**
+ * Behavior Trees
+ * --------------
+ * One tree per enemy archetype. Each turn a tree first gets a chance to call the pack,
+ * then picks the first thing it can do, in priority order.
+ */
+
+const hunter = (name: string, ...act: BehaviorNode[]) =>
+    sequence(name, optional(alert), selector('Act', ...act));
+
+// Plain enemies (no archetype) behave like Biters
+const DEFAULT_TREE = hunter('Biter', attack, chase, investigate, guard, wander);
+
+export const BEHAVIOR_TREES: Record<EnemyArchetypeId, BehaviorNode> = {
+    BITER: DEFAULT_TREE,
+    // Fast enough to go around: comes at the target from the side nobody else covers
+    RUNNER: hunter('Runner', attack, flank, chase, investigate, guard, wander),
+    // Screams on first sight (alerts later), and backs off once hurt
+    SCREAMER: sequence('Screamer',
+        optional(selector('Call', scream, alert)),
+        selector('Act', flee, attack, chase, investigate, guard, wander)
+    ),
+    BRUTE: hunter('Brute', attack, chase, investigate, guard, wander),
+    BLIND: hunter('Blind One', attack, chase, investigate, guard, wander),
+};
+
+export const getBehaviorTree = (unit: Unit): BehaviorNode =>
+    unit.archetype ? BEHAVIOR_TREES[unit.archetype] : DEFAULT_TREE;
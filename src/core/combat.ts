@@ -0,0 +1,183 @@
+import type { Coordinate, FloorData, Unit, UnitType, WeaponStats } from './types';
+import type { PRNG } from './rng';
+import { countItem, getEquippedWeapon, isLockedFor } from './items';
+import { canSee } from './perception';
+import { getArchetype } from './enemies';
+import { calculateFOV, tileKey } from './fov';
+
+/**
+ * Combat Module
+ * -------------
+ * Resolution of a single strike or shot.
+ * - Damage comes from the attacker's equipped weapon, its enemy archetype's attack,
+ *   or else the unarmed stats of its unit type.
+ * - Hit chance: the weapon's accuracy, lowered when the attacker is injured and raised
+ *   for a sneak attack (the target cannot see the attacker and is not chasing anyone).
+ *   Ranged weapons lose accuracy per tile beyond their optimal range.
+ * - Critical hits multiply the damage; armor then takes a flat amount off (a hit always does at least 1).
+ * - Knockback pushes a surviving target straight away from the attacker, stopping at walls and units.
+ * previewAttack gives the odds without rolling, for the UI.
+ * A strike needs the target orthogonally adjacent on the same floor when it is executed;
+ * a shot needs ammo, range and a line of fire (the same shadowcasting as sight).
+ */
+
+export const ATTACK_COST = 3;
+
+export const UNARMED: Record<UnitType, WeaponStats> = {
+    PLAYER: { damage: [1, 1], accuracy: 0.75, critChance: 0.05, critMultiplier: 2, knockback: 0 }, // Fists
+    ENEMY: { damage: [4, 8], accuracy: 0.7, critChance: 0.1, critMultiplier: 1.5, knockback: 0 }, // Claws and teeth
+};
+
+const INJURED_PENALTY = 0.15;
+const SNEAK_HIT_BONUS = 0.3;
+const SNEAK_CRIT_BONUS = 0.25;
+const MIN_HIT_CHANCE = 0.05;
+const MAX_HIT_CHANCE = 0.95;
+
+export type ReachCheck = 'OK' | 'DIFFERENT_FLOOR' | 'OUT_OF_RANGE' | 'NO_LINE_OF_FIRE' | 'NO_AMMO';
+
+export type AttackPreview = {
+    hitChance: number;
+    critChance: number;
+    minDamage: number; // On a normal hit, after armor
+    maxDamage: number;
+    critMaxDamage: number;
+    expectedDamage: number; // Averaged over misses and criticals
+    isSneakAttack: boolean;
+    knockback: number;
+    reach: ReachCheck; // From where the attacker stands now
+    ammo: number | null; // Shots left (null = melee)
+};
+
+export type AttackOutcome = {
+    hit: boolean;
+    critical: boolean;
+    sneak: boolean;
+    damage: number;
+};
+
+export const getWeaponStats = (unit: Unit): WeaponStats =>
+    getEquippedWeapon(unit)?.weapon ?? getArchetype(unit)?.attack ?? UNARMED[unit.type];
+
+export const isRangedWeapon = (weapon: WeaponStats) => (weapon.range ?? 0) > 0;
+
+// Shots left with the equipped weapon (Infinity when it needs no ammo)
+export const getAmmoCount = (unit: Unit): number => {
+    const { ammo } = getWeaponStats(unit);
+    if (!ammo) return Infinity;
+    return unit.inventory ? countItem(unit.inventory, ammo) : 0;
+};
+
+const getDistance = (a: Coordinate, b: Coordinate) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Nothing opaque between the two tiles (same geometry as the FOV)
+export const hasLineOfFire = (floor: FloorData, from: Coordinate, to: Coordinate, range: number): boolean =>
+    from.floor === to.floor && calculateFOV(from, range, floor).has(tileKey(to.x, to.y, to.floor));
+
+// Whether the attacker can hit the target from where it stands
+export const checkAttackReach = (attacker: Unit, target: Unit, floor: FloorData): ReachCheck => {
+    const weapon = getWeaponStats(attacker);
+    if (attacker.position.floor !== target.position.floor) return 'DIFFERENT_FLOOR';
+    if (!isRangedWeapon(weapon)) return isInMeleeRange(attacker.position, target.position) ? 'OK' : 'OUT_OF_RANGE';
+
+    if (getAmmoCount(attacker) <= 0) return 'NO_AMMO';
+    if (getDistance(attacker.position, target.position) > weapon.range!) return 'OUT_OF_RANGE';
+    return hasLineOfFire(floor, attacker.position, target.position, weapon.range!) ? 'OK' : 'NO_LINE_OF_FIRE';
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const applyArmor = (damage: number, target: Unit) => Math.max(1, damage - (target.status.armor ?? 0));
+
+// The target has no idea the blow is coming
+export const isSneakAttack = (attacker: Unit, target: Unit, floor: FloorData): boolean =>
+    target.memory?.state !== 'CHASE' && !canSee(target, attacker.position, floor);
+
+const getOdds = (attacker: Unit, target: Unit, floor: FloorData) => {
+    const weapon = getWeaponStats(attacker);
+    const sneak = isSneakAttack(attacker, target, floor);
+
+    let hitChance = weapon.accuracy;
+    if (attacker.status.isInjured) hitChance -= INJURED_PENALTY;
+    if (sneak) hitChance += SNEAK_HIT_BONUS;
+    if (isRangedWeapon(weapon)) {
+        const beyond = getDistance(attacker.position, target.position) - (weapon.optimalRange ?? weapon.range!);
+        hitChance -= Math.max(0, beyond) * (weapon.rangePenalty ?? 0);
+    }
+
+    return {
+        weapon,
+        sneak,
+        hitChance: clamp(hitChance, MIN_HIT_CHANCE, MAX_HIT_CHANCE),
+        critChance: clamp(weapon.critChance + (sneak ? SNEAK_CRIT_BONUS : 0), 0, 1),
+    };
+};
+
+export const previewAttack = (attacker: Unit, target: Unit, floor: FloorData): AttackPreview => {
+    const { weapon, sneak, hitChance, critChance } = getOdds(attacker, target, floor);
+    const [min, max] = weapon.damage;
+
+    // Average over every damage roll, since armor clamps low rolls
+    let normal = 0;
+    let critical = 0;
+    for (let roll = min; roll <= max; roll++) {
+        normal += applyArmor(roll, target);
+        critical += applyArmor(Math.round(roll * weapon.critMultiplier), target);
+    }
+    const rolls = max - min + 1;
+    const perHit = (1 - critChance) * (normal / rolls) + critChance * (critical / rolls);
+
+    return {
+        hitChance,
+        critChance,
+        minDamage: applyArmor(min, target),
+        maxDamage: applyArmor(max, target),
+        critMaxDamage: applyArmor(Math.round(max * weapon.critMultiplier), target),
+        expectedDamage: hitChance * perHit,
+        isSneakAttack: sneak,
+        knockback: weapon.knockback,
+        reach: checkAttackReach(attacker, target, floor),
+        ammo: isRangedWeapon(weapon) ? getAmmoCount(attacker) : null,
+    };
+};
+
+// Rolls use the simulation stream, so a turn resolves the same way on replay
+export const rollAttack = (rng: PRNG, attacker: Unit, target: Unit, floor: FloorData): AttackOutcome => {
+    const { weapon, sneak, hitChance, critChance } = getOdds(attacker, target, floor);
+
+    if (rng.next() >= hitChance) return { hit: false, critical: false, sneak, damage: 0 };
+
+    const critical = rng.next() < critChance;
+    const roll = rng.range(weapon.damage[0], weapon.damage[1]);
+    const damage = applyArmor(critical ? Math.round(roll * weapon.critMultiplier) : roll, target);
+    return { hit: true, critical, sneak, damage };
+};
+
+export const isInMeleeRange = (from: Coordinate, to: Coordinate) =>
+    from.floor === to.floor && Math.abs(from.x - to.x) + Math.abs(from.y - to.y) <= 1;
+
+// Free tiles a target can be struck from
+export const getMeleeTiles = (floor: FloorData, target: Unit, units: Unit[]): Coordinate[] =>
+    [[1, 0], [-1, 0], [0, 1], [0, -1]]
+        .map(([dx, dy]) => ({ x: target.position.x + dx, y: target.position.y + dy, floor: target.position.floor }))
+        .filter(at =>
+            floor[at.floor]?.[at.x]?.[at.y]?.metadata.walkable &&
+            !units.some(u => u.position.x === at.x && u.position.y === at.y && u.position.floor === at.floor)
+        );
+
+// Where a knocked-back target ends up (null = it does not budge)
+export const getKnockbackDestination = (
+    floor: FloorData, attacker: Coordinate, target: Unit, distance: number, isOccupied: (at: Coordinate) => boolean
+): Coordinate | null => {
+    const dx = Math.sign(target.position.x - attacker.x);
+    const dy = Math.sign(target.position.y - attacker.y);
+    if (dx === 0 && dy === 0) return null;
+
+    let at = target.position;
+    for (let i = 0; i < distance; i++) {
+        const next = { x: at.x + dx, y: at.y + dy, floor: at.floor };
+        if (!floor[next.floor]?.[next.x]?.[next.y]?.metadata.walkable || isLockedFor(floor, next, target) || isOccupied(next)) break;
+        at = next;
+    }
+    return at === target.position ? null : at;
+};
@@ -0,0 +1,210 @@
+import type { Coordinate, FloorData } from './types';
+import { MinHeap } from './heap';
+import { CLIMB_COST, getClimbTarget } from './pathfinding';
+
+/**
+ * Dijkstra Map Module
+ * -------------------
+ * Flow fields for moving many units at once: one "distance to the nearest goal"
+ * value per tile, computed once per turn and shared by every unit with the same goals.
+ * - A unit moves by stepping to its lowest neighbour (rolling downhill).
+ * - Goals may start at different values; a lower start makes a goal more attractive.
+ * - Flee maps invert a map and rescan it, so downhill leads away from the goals
+ *   towards open space instead of into the nearest corner.
+ * - Maps can be blended with weights (player, last heard noise, wander targets ...).
+ * - Locked doors are walls: the units following these maps carry no keys.
+ * Tiles are indexed like the pathfinder: (floor * width + x) * height + y.
+ */
+
+export type DijkstraMap = {
+    width: number;
+    height: number;
+    floors: number;
+    values: Float64Array; // Infinity = unreachable
+};
+
+export type DijkstraGoal = {
+    position: Coordinate;
+    value?: number; // Starting value (default 0)
+};
+
+export type DijkstraOptions = {
+    allowClimb?: boolean; // Spread through stairs (default true)
+    maxValue?: number; // Stop spreading beyond this value (default: whole map)
+};
+
+export type DownhillPath = {
+    path: Coordinate[]; // Excludes the starting tile
+    cost: number;
+};
+
+const FLEE_COEFFICIENT = -1.2; // Below -1 so that fleeing favours long escape routes over dead ends
+
+const DIRECTIONS = [
+    { dx: 1, dy: 0, cost: 1.0 },
+    { dx: 1, dy: 1, cost: 1.5 },
+    { dx: 0, dy: 1, cost: 1.0 },
+    { dx: -1, dy: 1, cost: 1.5 },
+    { dx: -1, dy: 0, cost: 1.0 },
+    { dx: -1, dy: -1, cost: 1.5 },
+    { dx: 0, dy: -1, cost: 1.0 },
+    { dx: 1, dy: -1, cost: 1.5 },
+];
+
+const emptyMap = (floor: FloorData): DijkstraMap => {
+    const width = floor[0]?.length ?? 0;
+    const height = floor[0]?.[0]?.length ?? 0;
+    return { width, height, floors: floor.length, values: new Float64Array(width * height * floor.length).fill(Infinity) };
+};
+
+const isPassable = (floor: FloorData, at: Coordinate) => {
+    const metadata = floor[at.floor][at.x][at.y].metadata;
+    return metadata.walkable && !metadata.lockId;
+};
+
+const isInside = (map: DijkstraMap, at: Coordinate) =>
+    at.floor >= 0 && at.floor < map.floors && at.x >= 0 && at.x < map.width && at.y >= 0 && at.y < map.height;
+
+const indexOf = (map: DijkstraMap, at: Coordinate) => (at.floor * map.width + at.x) * map.height + at.y;
+
+export const getMapValue = (map: DijkstraMap, at: Coordinate): number =>
+    isInside(map, at) ? map.values[indexOf(map, at)] : Infinity;
+
+// Dijkstra seeded with every finite value already in the map
+const relax = (floor: FloorData, map: DijkstraMap, options: DijkstraOptions) => {
+    const allowClimb = options.allowClimb ?? true;
+    const maxValue = options.maxValue ?? Infinity;
+    const { width, height, values } = map;
+    const heap = new MinHeap();
+
+    values.forEach((value, index) => {
+        if (value !== Infinity) heap.push(index, value);
+    });
+
+    const settled = new Uint8Array(values.length);
+    const visit = (x: number, y: number, z: number, value: number) => {
+        if (value > maxValue) return;
+        const index = (z * width + x) * height + y;
+        if (value >= values[index]) return;
+        values[index] = value;
+        heap.push(index, value);
+    };
+
+    while (heap.size > 0) {
+        const current = heap.pop();
+        if (settled[current]) continue;
+        settled[current] = 1;
+
+        const y = current % height;
+        const x = Math.floor(current / height) % width;
+        const z = Math.floor(current / (width * height));
+        const value = values[current];
+        const floorMap = floor[z];
+
+        for (const dir of DIRECTIONS) {
+            const nx = x + dir.dx;
+            const ny = y + dir.dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            if (!floorMap[nx][ny].metadata.walkable || floorMap[nx][ny].metadata.lockId) continue;
+            visit(nx, ny, z, value + dir.cost);
+        }
+
+        if (allowClimb) {
+            const climb = getClimbTarget(floor, { x, y, floor: z });
+            if (climb) visit(climb.x, climb.y, climb.floor, value + CLIMB_COST);
+        }
+    }
+};
+
+export const createDijkstraMap = (floor: FloorData, goals: DijkstraGoal[], options: DijkstraOptions = {}): DijkstraMap => {
+    const map = emptyMap(floor);
+
+    goals.forEach(goal => {
+        if (!isInside(map, goal.position)) return;
+        if (!isPassable(floor, goal.position)) return;
+        const index = indexOf(map, goal.position);
+        map.values[index] = Math.min(map.values[index], goal.value ?? 0);
+    });
+
+    relax(floor, map, options);
+    return map;
+};
+
+// Downhill on the result leads away from the source map's goals
+export const createFleeMap = (
+    floor: FloorData,
+    source: DijkstraMap,
+    options: DijkstraOptions = {},
+    coefficient = FLEE_COEFFICIENT
+): DijkstraMap => {
+    const map = { ...source, values: source.values.map(value => value === Infinity ? Infinity : value * coefficient) };
+    relax(floor, map, options);
+    return map;
+};
+
+// Weighted sum; a tile unreachable in any weighted map stays unreachable (and every tile, with no maps)
+export const blendMaps = (floor: FloorData, parts: { map: DijkstraMap; weight: number }[]): DijkstraMap => {
+    const blended = emptyMap(floor);
+    if (parts.length === 0) return blended;
+    const { values } = blended;
+
+    for (let i = 0; i < values.length; i++) {
+        let total = 0;
+        for (const { map, weight } of parts) {
+            if (weight === 0) continue;
+            const value = map.values[i];
+            if (value === Infinity) {
+                total = Infinity;
+                break;
+            }
+            total += value * weight;
+        }
+        values[i] = total;
+    }
+    return blended;
+};
+
+// Lowest walkable neighbour on the same floor that is strictly lower than `from`
+export const rollDownhill = (
+    map: DijkstraMap,
+    floor: FloorData,
+    from: Coordinate,
+    isBlocked: (at: Coordinate) => boolean = () => false
+): { to: Coordinate; cost: number } | null => {
+    let best: { to: Coordinate; cost: number } | null = null;
+    let bestValue = getMapValue(map, from);
+
+    for (const dir of DIRECTIONS) {
+        const to = { x: from.x + dir.dx, y: from.y + dir.dy, floor: from.floor };
+        const value = getMapValue(map, to);
+        if (value >= bestValue) continue;
+        if (!isPassable(floor, to) || isBlocked(to)) continue;
+
+        best = { to, cost: dir.cost };
+        bestValue = value;
+    }
+    return best;
+};
+
+// Rolls downhill until the AP budget runs out or a local minimum is reached
+export const followDownhill = (
+    map: DijkstraMap,
+    floor: FloorData,
+    from: Coordinate,
+    budget: number,
+    isBlocked?: (at: Coordinate) => boolean
+): DownhillPath => {
+    const path: Coordinate[] = [];
+    let cost = 0;
+    let current = from;
+
+    while (true) {
+        const step = rollDownhill(map, floor, current, isBlocked);
+        if (!step || cost + step.cost > budget) break;
+
+        cost += step.cost;
+        current = step.to;
+        path.push(current);
+    }
+    return { path, cost };
+};
@@ -0,0 +1,214 @@
+import type { AIMemory, Coordinate, EditorDocument, EnemyArchetypeId, FloorData, MapFile, Tile, TileMetadata, TileType, Unit, UnitType } from './types';
+import { buildMapFromFile, createMapFile, readMapFile, validateMapFile } from './mapFormat';
+import { DEFAULT_UNIT_NAMES, DEFAULT_UNIT_STATUS } from './mapGenerator';
+import { createTile, TILE_TYPES } from './tiles';
+import { createStartingInventory } from './items';
+import { createEnemy } from './enemies';
+
+/**
+ * Level Editor Module
+ * -------------------
+ * Pure edits on an EditorDocument (the full FloorData plus a unit list).
+ * Every helper returns a new document (React state), copying only what changed.
+ * The document converts to a MapFile for validation and play-testing,
+ * and is exported as-is (FloorData + units JSON).
+ */
+
+export const EDITOR_DOCUMENT_VERSION = 1;
+
+const sameTile = (a: Coordinate, b: Coordinate) => a.x === b.x && a.y === b.y && a.floor === b.floor;
+
+const createLevel = (width: number, height: number, z: number, type: TileType) =>
+    Array.from({ length: width }, (_, x) =>
+        Array.from({ length: height }, (_, y) => createTile(type, { x, y, floor: z }))
+    );
+
+// Copy-on-write for a single tile
+const withTile = (doc: EditorDocument, at: Coordinate, update: (tile: Tile) => Tile): EditorDocument => {
+    const floor = doc.floor.map((level, z) => z !== at.floor ? level : level.map((row, x) => x !== at.x ? row : row.map((tile, y) =>
+        y === at.y ? update(tile) : tile
+    )));
+    return { ...doc, floor };
+};
+
+const isInside = (doc: EditorDocument, at: Coordinate) =>
+    at.floor >= 0 && at.floor < doc.floor.length &&
+    at.x >= 0 && at.x < doc.floor[0].length &&
+    at.y >= 0 && at.y < doc.floor[0][0].length;
+
+export const createBlankDocument = (width: number, height: number, name = 'Untitled'): EditorDocument => ({
+    version: EDITOR_DOCUMENT_VERSION,
+    name,
+    floor: [createLevel(width, height, 0, 'CONCRETE')],
+    units: [],
+});
+
+export const createDocumentFromGame = (floor: FloorData, units: Record<string, Unit>, name = 'Untitled'): EditorDocument => ({
+    version: EDITOR_DOCUMENT_VERSION,
+    name,
+    floor: structuredClone(floor),
+    units: Object.values(units).filter(u => u.status.hp > 0).map(u => structuredClone(u)),
+});
+
+export const toMapFile = (doc: EditorDocument): MapFile => createMapFile(doc.floor, doc.units, doc.name);
+
+export const validateDocument = (doc: EditorDocument): string[] => validateMapFile(toMapFile(doc));
+
+// --- Tiles ---
+
+// Painting resets the tile's metadata to the new type's defaults
+export const paintTile = (doc: EditorDocument, at: Coordinate, type: TileType): EditorDocument => {
+    if (!isInside(doc, at) || doc.floor[at.floor][at.x][at.y].type === type) return doc;
+    return withTile(doc, at, tile => createTile(type, tile.coordinate, tile.metadata.spawnWeight));
+};
+
+export const setTileMetadata = (doc: EditorDocument, at: Coordinate, metadata: Partial<TileMetadata>): EditorDocument => {
+    if (!isInside(doc, at)) return doc;
+    return withTile(doc, at, tile => ({ ...tile, metadata: { ...tile.metadata, ...metadata } }));
+};
+
+// Places a linked pair: UP here and DOWN above, or (on the top floor) DOWN here and UP below
+export const placeStairs = (doc: EditorDocument, at: Coordinate): EditorDocument => {
+    if (!isInside(doc, at)) return doc;
+    if (at.floor + 1 < doc.floor.length) {
+        return paintTile(paintTile(doc, at, 'STAIRS_UP'), { ...at, floor: at.floor + 1 }, 'STAIRS_DOWN');
+    }
+    if (at.floor > 0) {
+        return paintTile(paintTile(doc, at, 'STAIRS_DOWN'), { ...at, floor: at.floor - 1 }, 'STAIRS_UP');
+    }
+    return doc; // A single floor has nowhere to lead
+};
+
+// Erasing one end of a staircase erases its partner as well
+export const eraseStairs = (doc: EditorDocument, at: Coordinate, type: TileType = 'CONCRETE'): EditorDocument => {
+    if (!isInside(doc, at)) return doc;
+    const current = doc.floor[at.floor][at.x][at.y].type;
+    const partner = current === 'STAIRS_UP' ? { ...at, floor: at.floor + 1 }
+        : current === 'STAIRS_DOWN' ? { ...at, floor: at.floor - 1 }
+            : null;
+
+    let next = paintTile(doc, at, type);
+    if (partner && isInside(doc, partner)) {
+        const partnerType = doc.floor[partner.floor][partner.x][partner.y].type;
+        if (partnerType === 'STAIRS_UP' || partnerType === 'STAIRS_DOWN') {
+            next = paintTile(next, partner, partner.floor > 0 ? 'FLOOR' : 'CONCRETE');
+        }
+    }
+    return next;
+};
+
+// --- Floors ---
+
+export const addFloor = (doc: EditorDocument): EditorDocument => ({
+    ...doc,
+    floor: [...doc.floor, createLevel(doc.floor[0].length, doc.floor[0][0].length, doc.floor.length, 'EMPTY')],
+});
+
+// Drops the top floor with its units; stairs that led up to it become plain floor
+export const removeTopFloor = (doc: EditorDocument): EditorDocument => {
+    if (doc.floor.length <= 1) return doc;
+    const top = doc.floor.length - 1;
+    const below = top - 1;
+
+    const floor = doc.floor.slice(0, top).map((level, z) => z !== below ? level : level.map(row => row.map(tile =>
+        tile.type === 'STAIRS_UP' ? createTile(below > 0 ? 'FLOOR' : 'CONCRETE', tile.coordinate, tile.metadata.spawnWeight) : tile
+    )));
+    return { ...doc, floor, units: doc.units.filter(u => u.position.floor !== top) };
+};
+
+// --- Units ---
+
+export const getUnitAt = (doc: EditorDocument, at: Coordinate): Unit | undefined =>
+    doc.units.find(u => sameTile(u.position, at));
+
+const nextUnitId = (doc: EditorDocument, prefix: string) => {
+    let n = 1;
+    while (doc.units.some(u => u.id === `${prefix}-${n}`)) n++;
+    return `${prefix}-${n}`;
+};
+
+// Placing a unit replaces whatever stood on the tile; every survivor placed joins the squad
+export const placeUnit = (
+    doc: EditorDocument, at: Coordinate, type: UnitType, state: AIMemory['state'] = 'IDLE', archetype: EnemyArchetypeId = 'BITER'
+): EditorDocument => {
+    if (!isInside(doc, at)) return doc;
+    const units = doc.units.filter(u => !sameTile(u.position, at));
+
+    const id = nextUnitId({ ...doc, units }, type === 'ENEMY' ? archetype.toLowerCase() : 'player');
+    const unit: Unit = type === 'ENEMY'
+        ? { ...createEnemy(id, archetype, at), memory: { state } }
+        : {
+            id,
+            type,
+            faction: type,
+            name: `${DEFAULT_UNIT_NAMES[type]} ${id.split('-')[1]}`,
+            position: { ...at },
+            status: { ...DEFAULT_UNIT_STATUS[type] },
+            facing: 'DOWN',
+            inventory: createStartingInventory(type),
+        };
+    return { ...doc, units: [...units, unit] };
+};
+
+export const removeUnitAt = (doc: EditorDocument, at: Coordinate): EditorDocument => {
+    const units = doc.units.filter(u => !sameTile(u.position, at));
+    return units.length === doc.units.length ? doc : { ...doc, units };
+};
+
+export const updateUnit = (doc: EditorDocument, unitId: string, update: Partial<Pick<Unit, 'facing' | 'memory' | 'status'>>): EditorDocument => ({
+    ...doc,
+    units: doc.units.map(u => u.id === unitId ? { ...u, ...update } : u),
+});
+
+// --- Import / Export ---
+
+export const serializeDocument = (doc: EditorDocument): string => JSON.stringify(doc);
+
+// Work in progress may fail validation, but the grid itself must be renderable
+const checkDocumentShape = (doc: EditorDocument) => {
+    const width = doc.floor[0]?.length ?? 0;
+    const height = doc.floor[0]?.[0]?.length ?? 0;
+    if (width === 0 || height === 0) throw new Error('Level has no tiles');
+
+    doc.floor.forEach((level, z) => {
+        if (level.length !== width || level.some(row => row.length !== height)) {
+            throw new Error(`Floor ${z} is not ${width}x${height}`);
+        }
+        level.forEach(row => row.forEach(tile => {
+            if (!TILE_TYPES.includes(tile.type)) throw new Error(`Unknown tile type "${tile.type}"`);
+        }));
+    });
+};
+
+// Accepts an exported editor document or a hand-authored map file
+export const parseDocument = (json: string): EditorDocument => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Level file is not valid JSON');
+    }
+
+    const doc = data as EditorDocument;
+    if (doc && typeof doc === 'object' && Array.isArray(doc.floor) && Array.isArray(doc.units)) {
+        if (doc.version !== EDITOR_DOCUMENT_VERSION) {
+            throw new Error(`Unsupported level version ${doc.version}`);
+        }
+        checkDocumentShape(doc);
+        return { ...doc, name: doc.name ?? 'Untitled' };
+    }
+
+    const file = readMapFile(data);
+    const { floor, units } = buildMapFromFile(file);
+    return { version: EDITOR_DOCUMENT_VERSION, name: file.name ?? 'Untitled', floor, units: Object.values(units) };
+};
+
+export const downloadDocument = (doc: EditorDocument) => {
+    const blob = new Blob([serializeDocument(doc)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${doc.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'level'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,105 @@
+import type { Coordinate, EnemyArchetypeId, Unit, UnitStatus, WeaponStats } from './types';
+import type { PRNG } from './rng';
+
+/**
+ * Enemy Module
+ * ------------
+ * Registry of enemy archetypes: stats, senses, speed, attack profile and behavior flags.
+ * - Stats (HP, AP and recovery = speed, sight range, armor) are copied onto the unit when it spawns;
+ *   map files can still override them.
+ * - The attack profile stands in for bare hands in combat.ts.
+ * - Behavior flags are read by the AI every turn; how an archetype acts on them is its
+ *   behavior tree (ai/trees.ts).
+ * - Spawning picks archetypes by weight among those allowed at the spawn's depth
+ *   (how far it is from the start), so the outskirts of the village are more dangerous.
+ */
+
+export type EnemyBehavior = {
+    huntsBySound?: boolean; // A survivor heard (or bumped into) is as good as one seen
+    hearingBonus?: number;  // Hears sounds this much quieter than the others do
+    startsAwake?: boolean;  // Spawns wandering instead of asleep
+};
+
+type EnemyArchetype = {
+    name: string;
+    status: UnitStatus;
+    attack: WeaponStats;
+    behavior: EnemyBehavior;
+    spawnWeight: number;
+    minDepth: number;
+};
+
+export const ENEMY_ARCHETYPES: Record<EnemyArchetypeId, EnemyArchetype> = {
+    BITER: {
+        name: 'Biter',
+        status: { hp: 3, maxHp: 3, ap: 8, maxAp: 8, apRecovery: 4, sightRange: 7, isInjured: false, noiseLevel: 3, armor: 0 },
+        attack: { damage: [4, 8], accuracy: 0.7, critChance: 0.1, critMultiplier: 1.5, knockback: 0 },
+        behavior: {},
+        spawnWeight: 6,
+        minDepth: 0,
+    },
+    RUNNER: {
+        name: 'Runner',
+        status: { hp: 2, maxHp: 2, ap: 12, maxAp: 12, apRecovery: 6, sightRange: 6, isInjured: false, noiseLevel: 4, armor: 0 },
+        attack: { damage: [3, 6], accuracy: 0.65, critChance: 0.1, critMultiplier: 1.5, knockback: 0 },
+        behavior: { startsAwake: true },
+        spawnWeight: 3,
+        minDepth: 1,
+    },
+    SCREAMER: {
+        name: 'Screamer',
+        status: { hp: 2, maxHp: 2, ap: 8, maxAp: 8, apRecovery: 4, sightRange: 9, isInjured: false, noiseLevel: 3, armor: 0 },
+        attack: { damage: [2, 4], accuracy: 0.6, critChance: 0.05, critMultiplier: 1.5, knockback: 0 },
+        behavior: {}, // Its scream lives in its behavior tree (ai/trees.ts)
+        spawnWeight: 2,
+        minDepth: 1,
+    },
+    BRUTE: {
+        name: 'Brute',
+        status: { hp: 10, maxHp: 10, ap: 6, maxAp: 6, apRecovery: 3, sightRange: 5, isInjured: false, noiseLevel: 5, armor: 1 },
+        attack: { damage: [6, 12], accuracy: 0.6, critChance: 0.1, critMultiplier: 1.5, knockback: 1 },
+        behavior: {},
+        spawnWeight: 1,
+        minDepth: 2,
+    },
+    BLIND: {
+        name: 'Blind One',
+        status: { hp: 4, maxHp: 4, ap: 8, maxAp: 8, apRecovery: 4, sightRange: 0, isInjured: false, noiseLevel: 2, armor: 0 },
+        attack: { damage: [5, 9], accuracy: 0.75, critChance: 0.15, critMultiplier: 2, knockback: 0 },
+        behavior: { huntsBySound: true, hearingBonus: 3, startsAwake: true },
+        spawnWeight: 2,
+        minDepth: 2,
+    },
+};
+
+export const SCREAM_COST = 2;
+const DEPTH_STEP = 8; // Manhattan tiles from the start per depth level
+
+export const getArchetype = (unit: Unit): EnemyArchetype | undefined =>
+    unit.archetype ? ENEMY_ARCHETYPES[unit.archetype] : undefined;
+
+export const getSpawnDepth = (start: Coordinate, at: Coordinate): number =>
+    Math.floor((Math.abs(at.x - start.x) + Math.abs(at.y - start.y)) / DEPTH_STEP) + at.floor;
+
+export const pickArchetype = (rng: PRNG, depth: number): EnemyArchetypeId => {
+    const allowed = (Object.keys(ENEMY_ARCHETYPES) as EnemyArchetypeId[]).filter(id => ENEMY_ARCHETYPES[id].minDepth <= depth);
+    const total = allowed.reduce((sum, id) => sum + ENEMY_ARCHETYPES[id].spawnWeight, 0);
+
+    let pick = rng.next() * total;
+    return allowed.find(id => (pick -= ENEMY_ARCHETYPES[id].spawnWeight) < 0) ?? allowed[allowed.length - 1];
+};
+
+export const createEnemy = (id: string, archetypeId: EnemyArchetypeId, position: Coordinate): Unit => {
+    const archetype = ENEMY_ARCHETYPES[archetypeId];
+    return {
+        id,
+        type: 'ENEMY',
+        faction: 'ENEMY',
+        name: archetype.name,
+        position: { ...position },
+        status: { ...archetype.status },
+        facing: 'DOWN',
+        archetype: archetypeId,
+        ...(archetype.behavior.startsAwake ? { memory: { state: 'WANDER' as const } } : {}),
+    };
+};
@@ -0,0 +1,811 @@
+import type { Action, ActionRequest, Container, Coordinate, GameState, Inventory, ItemStack, MapFile, SoundEvent, Unit } from './types';
+import { generateMap } from './mapGenerator';
+import { buildMapFromFile } from './mapFormat';
+import { getAlertedAllies, planEnemyTurn } from './ai';
+import { canPassThrough, findPath, getClimbTarget } from './pathfinding';
+import { PRNG, deriveRngState } from './rng';
+import { getFacing } from './perception';
+import { SOUND_VOLUMES, createFootstep, createSound } from './sound';
+import { ITEMS, addItem, countItem, fitItems, getKeys, getThrowTargets, isLockedFor, removeItem } from './items';
+import { checkAttackReach, getKnockbackDestination, getWeaponStats, isRangedWeapon, rollAttack } from './combat';
+import { getSearchVolume, isSearched, isWithinReach } from './loot';
+import { calculateSquadFOV, getSquad, getSquadModes } from './squad';
+
+/**
+ * Simulation Engine
+ * -----------------
+ * Pure game rules with no React, Zustand or timers involved.
+ * - Every function takes a GameState and returns a new one.
+ * - resolveTurn() applies a whole actionQueue synchronously and returns the
+ *   ordered list of TurnEvents it produced. Each event is also a state change:
+ *   folding the events over the input state with applyEvent() yields the result.
+ * - The store and the animated playback (actionProcessor) are consumers of this module,
+ *   so the same rules run in the browser and headless in Node.
+ */
+
+export const DECISION_TIME = 5.0;
+const DEFAULT_AP_RECOVERY = 5;
+
+type TurnEventBody =
+    | { type: 'MOVE'; unitId: string; from: Coordinate; to: Coordinate }
+    | { type: 'BLOCKED'; unitId: string; at: Coordinate; blockerId?: string }
+    | { type: 'LOCKED'; unitId: string; at: Coordinate; lockId: string }
+    | { type: 'CLIMB'; unitId: string; from: Coordinate; to: Coordinate }
+    | { type: 'ATTACK'; unitId: string; targetUnitId: string; hit: boolean; critical: boolean; sneak: boolean; ammoId?: string }
+    | { type: 'KNOCKBACK'; unitId: string; from: Coordinate; to: Coordinate }
+    | { type: 'ATTACK_FAILED'; unitId: string; targetUnitId: string; reason: 'DIFFERENT_FLOOR' | 'OUT_OF_RANGE' | 'NO_LINE_OF_FIRE' | 'NO_AMMO' | 'TARGET_GONE' }
+    | { type: 'DAMAGE'; unitId: string; amount: number; position: Coordinate }
+    | { type: 'DEATH'; unitId: string; position: Coordinate }
+    | { type: 'SOUND'; sound: SoundEvent }
+    | { type: 'ITEM_USED'; unitId: string; itemId: string; target?: Coordinate }
+    | { type: 'HEAL'; unitId: string; amount: number }
+    | { type: 'EQUIP'; unitId: string; itemId: string | null }
+    | { type: 'DROP'; unitId: string; item: ItemStack; position: Coordinate }
+    | { type: 'PICKUP'; unitId: string; item: ItemStack; position: Coordinate }
+    | { type: 'ITEM_FAILED'; unitId: string; itemId?: string; reason: 'NOT_CARRIED' | 'CANNOT_USE' | 'OUT_OF_RANGE' | 'NOTHING_HERE' | 'INVENTORY_FULL' }
+    | { type: 'SEARCH_PROGRESS'; unitId: string; containerId: string; amount: number }
+    | { type: 'SEARCH_INTERRUPTED'; unitId: string; containerId?: string; reason: 'OUT_OF_REACH' | 'DAMAGED' | 'THREATENED' }
+    | { type: 'LOOT'; unitId: string; containerId: string; found: ItemStack[]; leftBehind: ItemStack[] }
+    | { type: 'ALERT'; unitId: string; target: Coordinate; alertedIds: string[] };
+
+// Every event happens at a tick: all units act once per tick, simultaneously
+export type TurnEvent = TurnEventBody & { tick: number };
+
+export type TurnResult = {
+    state: GameState;
+    events: TurnEvent[];
+};
+
+export const initialGameState: GameState = {
+    floor: [],
+    units: {},
+    phase: 'DECISION',
+    timer: DECISION_TIME,
+    actionQueue: [],
+    seed: 0,
+    visibleTiles: new Set(),
+    exploredTiles: new Set(),
+    debugFow: false,
+    debugAi: false,
+    damageEvents: [],
+    sounds: [],
+    rngState: 0,
+    turn: 0,
+    turnLog: [],
+    mapFile: null,
+    groundItems: [],
+    containers: [],
+    targetingItemId: null,
+    isAttackTargeting: false,
+    lootSummary: null,
+    eventLog: [],
+    replay: null,
+    selectedUnitId: null,
+    network: null
+};
+
+// A hand-authored map replaces the generated one; the seed still drives the simulation RNG
+export const createGameState = (seed: number, mapFile?: MapFile): GameState => {
+    const { floor, units, containers } = mapFile ? buildMapFromFile(mapFile) : generateMap(seed);
+    const visible = calculateSquadFOV(units, floor);
+
+    return {
+        ...initialGameState,
+        seed,
+        rngState: deriveRngState(seed),
+        floor,
+        units,
+        visibleTiles: visible,
+        exploredTiles: new Set(visible),
+        containers,
+        mapFile: mapFile ?? null,
+        selectedUnitId: getSquad(units)[0]?.id ?? null
+    };
+};
+
+// --- State Helpers ---
+
+// FOW Update: the squad sees what any of its members sees
+const updateSquadView = (state: GameState): GameState => {
+    const visible = calculateSquadFOV(state.units, state.floor);
+    const explored = new Set(state.exploredTiles);
+    visible.forEach(key => explored.add(key));
+    return { ...state, visibleTiles: visible, exploredTiles: explored };
+};
+
+
+export const placeUnit = (state: GameState, unitId: string, position: Coordinate): GameState => {
+    const unit = state.units[unitId];
+    if (!unit) return state;
+
+    const next: GameState = {
+        ...state,
+        units: { ...state.units, [unitId]: { ...unit, position } }
+    };
+
+    return unit.faction === 'PLAYER' ? updateSquadView(next) : next;
+};
+
+// Turn a unit to face a tile (vision cones follow facing)
+const faceTowards = (state: GameState, unitId: string, to: Coordinate, from?: Coordinate): GameState => {
+    const unit = state.units[unitId];
+    if (!unit) return state;
+
+    const facing = getFacing(from ?? unit.position, to, unit.facing);
+    if (facing === unit.facing) return state;
+    return { ...state, units: { ...state.units, [unitId]: { ...unit, facing } } };
+};
+
+const damageUnit = (state: GameState, unitId: string, amount: number): GameState => {
+    const unit = state.units[unitId];
+    if (!unit) return state;
+
+    const hp = unit.status.hp - amount;
+    return {
+        ...state,
+        units: {
+            ...state.units,
+            [unitId]: {
+                ...unit,
+                status: { ...unit.status, hp, isInjured: hp < unit.status.maxHp * 0.5 }
+            }
+        }
+    };
+};
+
+const healUnit = (state: GameState, unitId: string, amount: number): GameState => {
+    const unit = state.units[unitId];
+    if (!unit) return state;
+
+    const hp = Math.min(unit.status.maxHp, unit.status.hp + amount);
+    return {
+        ...state,
+        units: {
+            ...state.units,
+            [unitId]: { ...unit, status: { ...unit.status, hp, isInjured: hp < unit.status.maxHp * 0.5 } }
+        }
+    };
+};
+
+const updateInventory = (state: GameState, unitId: string, update: (inventory: Inventory) => Inventory): GameState => {
+    const unit = state.units[unitId];
+    if (!unit?.inventory) return state;
+    return { ...state, units: { ...state.units, [unitId]: { ...unit, inventory: update(unit.inventory) } } };
+};
+
+const isSameTile = (a: Coordinate, b: Coordinate) => a.x === b.x && a.y === b.y && a.floor === b.floor;
+
+// Items of the same kind on the same tile share one pile
+const changeGroundItems = (state: GameState, position: Coordinate, item: ItemStack, delta: 1 | -1): GameState => {
+    const groundItems = state.groundItems.map(g => ({ ...g, item: { ...g.item } }));
+    const pile = groundItems.find(g => isSameTile(g.position, position) && g.item.itemId === item.itemId);
+    if (pile) {
+        pile.item.quantity += item.quantity * delta;
+    } else if (delta > 0) {
+        groundItems.push({ position: { ...position }, item: { ...item } });
+    }
+    return { ...state, groundItems: groundItems.filter(g => g.item.quantity > 0) };
+};
+
+const updateContainer = (state: GameState, containerId: string, update: (container: Container) => Container): GameState => ({
+    ...state,
+    containers: state.containers.map(c => c.id === containerId ? update(c) : c)
+});
+
+const removeUnit = (state: GameState, unitId: string): GameState => {
+    const units = { ...state.units };
+    delete units[unitId];
+    // A fallen survivor no longer shares what they saw
+    return state.units[unitId]?.faction === 'PLAYER' ? updateSquadView({ ...state, units }) : { ...state, units };
+};
+
+export const applyEvent = (state: GameState, event: TurnEvent): GameState => {
+    switch (event.type) {
+        case 'MOVE':
+            return faceTowards(placeUnit(state, event.unitId, event.to), event.unitId, event.to, event.from);
+        case 'CLIMB':
+            return placeUnit(state, event.unitId, event.to);
+        case 'ATTACK': {
+            // Attacker and target square up to each other
+            const attacker = state.units[event.unitId];
+            const target = state.units[event.targetUnitId];
+            if (!attacker || !target) return state;
+            const fired = event.ammoId ? updateInventory(state, attacker.id, inv => removeItem(inv, event.ammoId!)) : state;
+            const turned = faceTowards(fired, attacker.id, target.position);
+            return faceTowards(turned, target.id, attacker.position);
+        }
+        case 'KNOCKBACK':
+            return placeUnit(state, event.unitId, event.to);
+        case 'DAMAGE':
+            return damageUnit(state, event.unitId, event.amount);
+        case 'DEATH':
+            return removeUnit(state, event.unitId);
+        case 'SOUND':
+            return { ...state, sounds: [...state.sounds, event.sound] };
+        case 'ITEM_USED': {
+            const used = updateInventory(state, event.unitId, inv => removeItem(inv, event.itemId));
+            return event.target ? faceTowards(used, event.unitId, event.target) : used;
+        }
+        case 'HEAL':
+            return healUnit(state, event.unitId, event.amount);
+        case 'EQUIP':
+            return updateInventory(state, event.unitId, inv => ({ ...inv, equippedWeapon: event.itemId }));
+        case 'DROP':
+            return changeGroundItems(
+                updateInventory(state, event.unitId, inv => removeItem(inv, event.item.itemId, event.item.quantity)),
+                event.position, event.item, 1
+            );
+        case 'PICKUP':
+            return changeGroundItems(
+                updateInventory(state, event.unitId, inv => addItem(inv, event.item.itemId, event.item.quantity)),
+                event.position, event.item, -1
+            );
+        case 'SEARCH_PROGRESS':
+            return updateContainer(state, event.containerId, c => ({ ...c, progress: Math.min(c.searchCost, c.progress + event.amount) }));
+        case 'LOOT':
+            return updateContainer(
+                updateInventory(state, event.unitId, inv => event.found.reduce((acc, s) => addItem(acc, s.itemId, s.quantity), inv)),
+                event.containerId, c => ({ ...c, items: event.leftBehind.map(s => ({ ...s })) })
+            );
+        case 'ALERT':
+            return event.alertedIds.reduce((acc, id) => {
+                const ally = acc.units[id];
+                if (!ally || ally.memory?.state === 'CHASE') return acc;
+                const memory = { ...ally.memory, state: 'SEARCH' as const, lastKnownTargetPos: { ...event.target } };
+                return { ...acc, units: { ...acc.units, [id]: { ...ally, memory } } };
+            }, state);
+        default:
+            return state; // Informational events
+    }
+};
+
+// --- Turn Resolution (Simultaneous WEGO) ---
+//
+// The turn is split into ticks. In each tick every unit with work left advances
+// its current action by one step:
+//   1. Movement: all intended steps resolve together (contested tiles, swaps, following).
+//   2. Climbing, screaming and alerting (one tick each).
+//   3. Item actions (use / drop / equip / pick up), one tick each, and searching
+//      (one tick per AP of work).
+//   4. Attacks: every attacker whose target is in range strikes at once, so a unit
+//      killed this tick still lands its own blow. An attacker whose target is out of
+//      range holds the attack while the target is still moving, and gives up once
+//      the target has stopped.
+
+const MAX_TICKS = 64;
+const ITEM_ACTIONS: Action['type'][] = ['USE', 'DROP', 'EQUIP', 'PICKUP'];
+const MAX_BLOCKED_TICKS = 2; // A move is abandoned after being blocked this many ticks in a row
+
+type UnitPlan = {
+    unitId: string;
+    actions: Action[];
+    cursor: number;
+    path: Coordinate[] | null; // Remaining steps of the current MOVE (computed when it starts)
+    blockedTicks: number;
+    work: number; // AP of work done on the current SEARCH
+    startHp: number | null; // HP when the current SEARCH started (getting hurt interrupts it)
+};
+
+type TurnContext = {
+    state: GameState;
+    events: TurnEvent[];
+    tick: number;
+};
+
+const emit = (ctx: TurnContext, event: TurnEventBody) => {
+    ctx.events.push({ ...event, tick: ctx.tick });
+    ctx.state = applyEvent(ctx.state, event as TurnEvent);
+};
+
+const emitSound = (ctx: TurnContext, sound: SoundEvent | null) => {
+    if (sound) emit(ctx, { type: 'SOUND', sound });
+};
+
+const currentAction = (plan: UnitPlan): Action | undefined => plan.actions[plan.cursor];
+
+const advance = (plan: UnitPlan) => {
+    plan.cursor++;
+    plan.path = null;
+    plan.blockedTicks = 0;
+    plan.work = 0;
+    plan.startHp = null;
+};
+
+const isMoving = (plan: UnitPlan | undefined): boolean => {
+    const action = plan && currentAction(plan);
+    return !!action && (action.type === 'MOVE' || action.type === 'CLIMB');
+};
+
+// Skips finished / invalid actions and lazily computes the path of a MOVE when it starts.
+// Units that are themselves on the move are not obstacles for planning: whether their
+// tile is free is decided tick by tick.
+const prepare = (ctx: TurnContext, plan: UnitPlan, plans: Map<string, UnitPlan>) => {
+    while (currentAction(plan)) {
+        const action = currentAction(plan)!;
+        const unit = ctx.state.units[plan.unitId];
+        if (!unit) {
+            plan.cursor = plan.actions.length;
+            return;
+        }
+
+        if (action.type !== 'MOVE') return;
+        if (plan.path && plan.path.length > 0) return;
+        if (plan.path) {
+            advance(plan); // Arrived
+            continue;
+        }
+
+        const obstacles = Object.values(ctx.state.units).filter(u => u.id === unit.id || !isMoving(plans.get(u.id)));
+        const path = action.target
+            ? findPath(unit.position, action.target, ctx.state.floor, obstacles, unit.id, { allowClimb: false, keys: getKeys(unit) })
+            : null;
+        if (path && path.length > 1) {
+            plan.path = path.slice(1);
+            return;
+        }
+        // Locked doors are never on a path without their key; walking up to one is refused
+        if (action.target && isLockedFor(ctx.state.floor, action.target, unit)) {
+            const lockId = ctx.state.floor[action.target.floor][action.target.x][action.target.y].metadata.lockId!;
+            emit(ctx, { type: 'LOCKED', unitId: unit.id, at: { ...action.target }, lockId });
+        }
+        advance(plan); // Unreachable or already there
+    }
+};
+
+type StepIntent = {
+    plan: UnitPlan;
+    unit: Unit;
+    from: Coordinate;
+    to: Coordinate;
+    isFinalStep: boolean;
+};
+
+const tileKey = (c: Coordinate) => `${c.x},${c.y},${c.floor}`;
+
+const resolveMovement = (ctx: TurnContext, intents: StepIntent[], priority: Map<string, number>) => {
+    const status = new Map<string, 'PENDING' | 'OK' | 'BLOCKED'>();
+    const blockers = new Map<string, string | undefined>();
+    const block = (intent: StepIntent, blockerId?: string) => {
+        status.set(intent.unit.id, 'BLOCKED');
+        blockers.set(intent.unit.id, blockerId);
+    };
+    intents.forEach(i => status.set(i.unit.id, 'PENDING'));
+
+    // Contested tile: the unit with initiative (earliest in the queue) enters, the rest wait
+    const byDestination = new Map<string, StepIntent[]>();
+    intents.forEach(i => {
+        const key = tileKey(i.to);
+        byDestination.set(key, [...(byDestination.get(key) ?? []), i]);
+    });
+    byDestination.forEach(contenders => {
+        if (contenders.length < 2) return;
+        contenders.sort((a, b) => priority.get(a.unit.id)! - priority.get(b.unit.id)!);
+        contenders.slice(1).forEach(i => block(i, contenders[0].unit.id));
+    });
+
+    // Swaps: two units cannot walk through each other
+    intents.forEach(a => {
+        const b = intents.find(o => o !== a && tileKey(o.to) === tileKey(a.from) && tileKey(o.from) === tileKey(a.to));
+        if (b) block(a, b.unit.id);
+    });
+
+    const moverById = new Map(intents.map(i => [i.unit.id, i]));
+    const units = Object.values(ctx.state.units);
+
+    // Following: a tile being vacated this tick can be entered this tick
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const intent of intents) {
+            if (status.get(intent.unit.id) !== 'PENDING') continue;
+
+            const occupants = units.filter(u => u.id !== intent.unit.id && tileKey(u.position) === tileKey(intent.to));
+            let verdict: 'OK' | 'BLOCKED' | 'PENDING' = 'OK';
+            let blockerId: string | undefined;
+
+            for (const occupant of occupants) {
+                const leaving = moverById.has(occupant.id) ? status.get(occupant.id) : 'BLOCKED';
+                if (leaving === 'OK') continue;
+
+                // Pass-through Logic: survivors may slip past enemies and each other, but never stop on one
+                const canPass = !intent.isFinalStep && canPassThrough(intent.unit, occupant);
+                if (canPass) continue;
+
+                if (leaving === 'PENDING') {
+                    verdict = 'PENDING';
+                } else {
+                    verdict = 'BLOCKED';
+                    blockerId = occupant.id;
+                    break;
+                }
+            }
+
+            if (verdict === 'OK') {
+                status.set(intent.unit.id, 'OK');
+                changed = true;
+            } else if (verdict === 'BLOCKED') {
+                block(intent, blockerId);
+                changed = true;
+            }
+        }
+    }
+
+    // Whatever is still pending waits on a cycle of units; nobody moves
+    intents.forEach(intent => {
+        if (status.get(intent.unit.id) === 'PENDING') block(intent);
+    });
+
+    for (const intent of intents) {
+        const { plan } = intent;
+        if (status.get(intent.unit.id) === 'OK') {
+            emit(ctx, { type: 'MOVE', unitId: intent.unit.id, from: intent.from, to: intent.to });
+            emitSound(ctx, createFootstep(ctx.state.floor, intent.unit, intent.to));
+            plan.path!.shift();
+            plan.blockedTicks = 0;
+        } else {
+            emit(ctx, { type: 'BLOCKED', unitId: intent.unit.id, at: intent.to, blockerId: blockers.get(intent.unit.id) });
+            plan.blockedTicks++;
+            if (plan.blockedTicks >= MAX_BLOCKED_TICKS) advance(plan);
+        }
+    }
+};
+
+const resolveClimb = (ctx: TurnContext, plan: UnitPlan) => {
+    const unit = ctx.state.units[plan.unitId];
+    if (!unit) return;
+
+    // Not on stairs / invalid floor target
+    const to = getClimbTarget(ctx.state.floor, unit.position);
+    if (!to) {
+        advance(plan);
+        return;
+    }
+
+    const occupant = Object.values(ctx.state.units).find(u => tileKey(u.position) === tileKey(to));
+    if (occupant) {
+        emit(ctx, { type: 'BLOCKED', unitId: unit.id, at: to, blockerId: occupant.id });
+        plan.blockedTicks++;
+        if (plan.blockedTicks >= MAX_BLOCKED_TICKS) advance(plan);
+        return;
+    }
+
+    emit(ctx, { type: 'CLIMB', unitId: unit.id, from: unit.position, to });
+    emitSound(ctx, createSound(ctx.state.floor, 'CLIMB', to, SOUND_VOLUMES.CLIMB, unit.id));
+    advance(plan);
+};
+
+// A Screamer calling the horde: loud, and heard by its own side too (see ai.ts)
+const resolveScream = (ctx: TurnContext, plan: UnitPlan) => {
+    const unit = ctx.state.units[plan.unitId];
+    advance(plan);
+    if (unit) emitSound(ctx, createSound(ctx.state.floor, 'SCREAM', unit.position, SOUND_VOLUMES.SCREAM, unit.id));
+};
+
+// Passing a sighting on to the pack: whoever hears the growl (or is right next to it) is told
+const resolveAlert = (ctx: TurnContext, plan: UnitPlan) => {
+    const action = currentAction(plan)!;
+    const unit = ctx.state.units[plan.unitId];
+    advance(plan);
+    if (!unit || !action.target) return;
+
+    const alertedIds = getAlertedAllies(ctx.state, unit, action.target);
+    if (alertedIds.length > 0) emit(ctx, { type: 'ALERT', unitId: unit.id, target: { ...action.target }, alertedIds });
+    emitSound(ctx, createSound(ctx.state.floor, 'GROWL', unit.position, SOUND_VOLUMES.GROWL, unit.id));
+};
+
+const resolveItemAction = (ctx: TurnContext, plan: UnitPlan) => {
+    const action = currentAction(plan)!;
+    const unit = ctx.state.units[plan.unitId];
+    advance(plan);
+    if (!unit) return;
+
+    const fail = (reason: Extract<TurnEventBody, { type: 'ITEM_FAILED' }>['reason']) =>
+        emit(ctx, { type: 'ITEM_FAILED', unitId: unit.id, itemId: action.itemId, reason });
+    const inventory = unit.inventory;
+    const def = action.itemId ? ITEMS[action.itemId] : undefined;
+
+    if (action.type === 'PICKUP') {
+        const pile = ctx.state.groundItems.find(g =>
+            isSameTile(g.position, unit.position) && (!action.itemId || g.item.itemId === action.itemId)
+        );
+        if (!inventory || !pile) return fail('NOTHING_HERE');
+
+        // Take as many as fit
+        const [item] = fitItems(inventory, [pile.item]).taken;
+        if (!item) return fail('INVENTORY_FULL');
+        emit(ctx, { type: 'PICKUP', unitId: unit.id, item, position: { ...unit.position } });
+        return;
+    }
+
+    // Unequipping needs no item
+    if (action.type === 'EQUIP' && !action.itemId) {
+        if (inventory) emit(ctx, { type: 'EQUIP', unitId: unit.id, itemId: null });
+        return;
+    }
+
+    if (!inventory || !def || countItem(inventory, def.id) === 0) return fail('NOT_CARRIED');
+
+    switch (action.type) {
+        case 'EQUIP':
+            if (def.category !== 'WEAPON') return fail('CANNOT_USE');
+            emit(ctx, { type: 'EQUIP', unitId: unit.id, itemId: def.id });
+            return;
+        case 'DROP':
+            emit(ctx, { type: 'DROP', unitId: unit.id, item: { itemId: def.id, quantity: countItem(inventory, def.id) }, position: { ...unit.position } });
+            return;
+        case 'USE':
+            if (def.category === 'CONSUMABLE') {
+                emit(ctx, { type: 'ITEM_USED', unitId: unit.id, itemId: def.id });
+                if (def.heal) emit(ctx, { type: 'HEAL', unitId: unit.id, amount: def.heal });
+                return;
+            }
+            if (def.category === 'NOISEMAKER' && def.noise) {
+                if (!action.target || !getThrowTargets(ctx.state.floor, unit.position, def.throwRange ?? 0).has(tileKey(action.target))) return fail('OUT_OF_RANGE');
+                emit(ctx, { type: 'ITEM_USED', unitId: unit.id, itemId: def.id, target: { ...action.target } });
+                // Heard as coming from where it lands, which is the whole point
+                emitSound(ctx, createSound(ctx.state.floor, def.noise.kind, action.target, def.noise.volume, unit.id));
+                return;
+            }
+            return fail('CANNOT_USE'); // Weapons are equipped, keys work on their own
+    }
+};
+
+// One AP of work per tick: rummaging is noisy, and stops when the searcher is hurt
+// or a hostile unit is right next to them. Progress stays with the container.
+const resolveSearch = (ctx: TurnContext, plan: UnitPlan) => {
+    const action = currentAction(plan)!;
+    const unit = ctx.state.units[plan.unitId];
+    if (!unit) {
+        advance(plan);
+        return;
+    }
+
+    const container = action.target ? ctx.state.containers.find(c => isSameTile(c.position, action.target!)) : undefined;
+    const interrupt = (reason: Extract<TurnEventBody, { type: 'SEARCH_INTERRUPTED' }>['reason']) => {
+        emit(ctx, { type: 'SEARCH_INTERRUPTED', unitId: unit.id, containerId: container?.id, reason });
+        advance(plan);
+    };
+
+    if (!container || !isWithinReach(container, unit.position)) return interrupt('OUT_OF_REACH');
+    if (plan.startHp === null) plan.startHp = unit.status.hp;
+    if (unit.status.hp < plan.startHp) return interrupt('DAMAGED');
+
+    const threatened = Object.values(ctx.state.units).some(u =>
+        u.faction !== unit.faction && u.position.floor === unit.position.floor &&
+        Math.max(Math.abs(u.position.x - unit.position.x), Math.abs(u.position.y - unit.position.y)) <= 1
+    );
+    if (threatened) return interrupt('THREATENED');
+
+    if (!isSearched(container)) {
+        emit(ctx, { type: 'SEARCH_PROGRESS', unitId: unit.id, containerId: container.id, amount: 1 });
+        emitSound(ctx, createSound(ctx.state.floor, 'SEARCH', container.position, getSearchVolume(container), unit.id));
+        plan.work++;
+    }
+
+    const searched = ctx.state.containers.find(c => c.id === container.id)!;
+    if (isSearched(searched)) {
+        const { taken, rest } = unit.inventory
+            ? fitItems(unit.inventory, searched.items)
+            : { taken: [], rest: searched.items };
+        emit(ctx, { type: 'LOOT', unitId: unit.id, containerId: container.id, found: taken, leftBehind: rest });
+        advance(plan);
+    } else if (plan.work >= action.cost) {
+        advance(plan); // Out of AP for this turn; carry on next turn
+    }
+};
+
+const resolveAttacks = (ctx: TurnContext, attackers: UnitPlan[], plans: Map<string, UnitPlan>) => {
+    const strikes: { attacker: Unit; target: Unit }[] = [];
+
+    for (const plan of attackers) {
+        const action = currentAction(plan)!;
+        const attacker = ctx.state.units[plan.unitId];
+        const target = action.targetUnitId ? ctx.state.units[action.targetUnitId] : undefined;
+
+        if (!attacker || !target) {
+            if (attacker && action.targetUnitId) {
+                emit(ctx, { type: 'ATTACK_FAILED', unitId: attacker.id, targetUnitId: action.targetUnitId, reason: 'TARGET_GONE' });
+            }
+            advance(plan);
+            continue;
+        }
+
+        const reach = checkAttackReach(attacker, target, ctx.state.floor);
+        if (reach === 'OK') {
+            strikes.push({ attacker, target });
+            advance(plan);
+            continue;
+        }
+
+        // Hold the attack while the target may still come into range (or into the open)
+        if (reach === 'NO_AMMO' || !isMoving(plans.get(target.id))) {
+            emit(ctx, { type: 'ATTACK_FAILED', unitId: attacker.id, targetUnitId: target.id, reason: reach });
+            advance(plan);
+        }
+    }
+
+    // Simultaneous: all strikes of the tick are rolled against the units as they stood
+    // and land before anyone is removed
+    const rng = new PRNG(ctx.state.rngState);
+    const outcomes = strikes.map(({ attacker, target }) => rollAttack(rng, attacker, target, ctx.state.floor));
+    ctx.state = { ...ctx.state, rngState: rng.getState() };
+
+    strikes.forEach(({ attacker, target }, i) => {
+        const { hit, critical, sneak, damage } = outcomes[i];
+        const weapon = getWeaponStats(attacker);
+        if (isRangedWeapon(weapon)) {
+            // Spent ammo is gone whether the shot hits or not
+            emit(ctx, { type: 'ATTACK', unitId: attacker.id, targetUnitId: target.id, hit, critical, sneak, ammoId: weapon.ammo });
+            emitSound(ctx, createSound(ctx.state.floor, 'SHOT', attacker.position, weapon.shotVolume ?? SOUND_VOLUMES.SHOT, attacker.id));
+        } else {
+            emit(ctx, { type: 'ATTACK', unitId: attacker.id, targetUnitId: target.id, hit, critical, sneak });
+            emitSound(ctx, createSound(ctx.state.floor, 'ATTACK', attacker.position, SOUND_VOLUMES.ATTACK, attacker.id));
+        }
+        if (!hit) return;
+
+        emit(ctx, { type: 'DAMAGE', unitId: target.id, amount: damage, position: { ...ctx.state.units[target.id].position } });
+
+        const struck = ctx.state.units[target.id];
+        const distance = weapon.knockback;
+        if (distance > 0 && struck.status.hp > 0) {
+            const occupied = (at: Coordinate) => Object.values(ctx.state.units).some(u => u.status.hp > 0 && isSameTile(u.position, at));
+            const to = getKnockbackDestination(ctx.state.floor, attacker.position, struck, distance, occupied);
+            if (to) {
+                emit(ctx, { type: 'KNOCKBACK', unitId: struck.id, from: { ...struck.position }, to });
+                // A move in progress carries on from where the target landed
+                const struckPlan = plans.get(struck.id);
+                if (struckPlan) struckPlan.path = null;
+            }
+        }
+    });
+
+    const struck = new Set(strikes.map(s => s.target.id));
+    struck.forEach(id => {
+        const unit = ctx.state.units[id];
+        if (unit && unit.status.hp <= 0) {
+            emit(ctx, { type: 'DEATH', unitId: id, position: { ...unit.position } });
+        }
+    });
+};
+
+export const resolveTurn = (state: GameState, actions: Action[]): TurnResult => {
+    // Sounds are per turn: what was heard last turn has already been acted on
+    const ctx: TurnContext = { state: { ...state, sounds: [] }, events: [], tick: 0 };
+
+    // One plan per unit, in initiative order (first appearance in the queue)
+    const plans = new Map<string, UnitPlan>();
+    actions.forEach(action => {
+        if (!plans.has(action.unitId)) {
+            plans.set(action.unitId, { unitId: action.unitId, actions: [], cursor: 0, path: null, blockedTicks: 0, work: 0, startHp: null });
+        }
+        plans.get(action.unitId)!.actions.push(action);
+    });
+    const priority = new Map(Array.from(plans.keys()).map((id, i) => [id, i]));
+
+    for (; ctx.tick < MAX_TICKS; ctx.tick++) {
+        plans.forEach(plan => prepare(ctx, plan, plans));
+        const active = Array.from(plans.values()).filter(p => currentAction(p));
+        if (active.length === 0) break;
+
+        const intents: StepIntent[] = [];
+        const climbers: UnitPlan[] = [];
+        const screamers: UnitPlan[] = [];
+        const alerters: UnitPlan[] = [];
+        const itemUsers: UnitPlan[] = [];
+        const searchers: UnitPlan[] = [];
+        const attackers: UnitPlan[] = [];
+
+        active.forEach(plan => {
+            const action = currentAction(plan)!;
+            const unit = ctx.state.units[plan.unitId];
+            if (action.type === 'MOVE' && plan.path) {
+                intents.push({ plan, unit, from: unit.position, to: plan.path[0], isFinalStep: plan.path.length === 1 });
+            } else if (action.type === 'CLIMB') {
+                climbers.push(plan);
+            } else if (action.type === 'SCREAM') {
+                screamers.push(plan);
+            } else if (action.type === 'ALERT') {
+                alerters.push(plan);
+            } else if (ITEM_ACTIONS.includes(action.type)) {
+                itemUsers.push(plan);
+            } else if (action.type === 'SEARCH') {
+                searchers.push(plan);
+            } else if (action.type === 'ATTACK') {
+                attackers.push(plan);
+            } else {
+                advance(plan); // WAIT / unsupported: nothing to do
+            }
+        });
+
+        resolveMovement(ctx, intents, priority);
+        climbers.forEach(plan => resolveClimb(ctx, plan));
+        screamers.forEach(plan => resolveScream(ctx, plan));
+        alerters.forEach(plan => resolveAlert(ctx, plan));
+        itemUsers.forEach(plan => resolveItemAction(ctx, plan));
+        searchers.forEach(plan => resolveSearch(ctx, plan));
+        resolveAttacks(ctx, attackers, plans);
+    }
+
+    return {
+        state: { ...ctx.state, actionQueue: [] },
+        events: ctx.events
+    };
+};
+
+// --- Phase Transitions ---
+
+// Planned steps get a temporary id; the real one is drawn from the RNG when the turn starts
+// executing, so editing the plan does not disturb the stream (replays still reproduce)
+const PLAN_ID_PREFIX = 'plan-';
+
+const nextPlanId = (queue: Action[]) =>
+    PLAN_ID_PREFIX + (Math.max(0, ...queue.map(a => a.id.startsWith(PLAN_ID_PREFIX) ? Number(a.id.slice(PLAN_ID_PREFIX.length)) : 0)) + 1);
+
+export const enqueueAction = (state: GameState, request: ActionRequest): GameState => {
+    const action: Action = { ...request, id: nextPlanId(state.actionQueue) };
+
+    let units = state.units;
+    const unit = state.units[action.unitId];
+    if (unit && action.cost > 0) {
+        units = {
+            ...state.units,
+            [unit.id]: { ...unit, status: { ...unit.status, ap: unit.status.ap - action.cost } }
+        };
+    }
+
+    return {
+        ...state,
+        actionQueue: [...state.actionQueue, action],
+        units
+    };
+};
+
+export const beginExecution = (state: GameState): GameState => {
+    // The AI updates enemy memory in place, so let it work on a copy
+    const units: Record<string, Unit> = structuredClone(state.units);
+    const rng = new PRNG(state.rngState);
+    const playerActions = state.actionQueue.map(action => ({ ...action, id: rng.nextId('action') }));
+    const { actions: aiActions, traces } = planEnemyTurn({ ...state, units, actionQueue: playerActions }, rng);
+    if (state.debugAi) {
+        Object.entries(traces).forEach(([id, trace]) => console.log(`AI ${id} (${units[id].memory?.state}): ${trace.join(', ')}`));
+    }
+    const combinedQueue = [...playerActions, ...aiActions];
+
+    return {
+        ...state,
+        units,
+        phase: 'EXECUTION',
+        actionQueue: combinedQueue,
+        rngState: rng.getState(),
+        turnLog: [...state.turnLog, { turn: state.turn, actions: combinedQueue, modes: getSquadModes(state.units) }]
+    };
+};
+
+export const beginDecision = (state: GameState): GameState => {
+    const units = { ...state.units };
+    Object.keys(units).forEach(key => {
+        const u = units[key];
+        const recovery = u.status.apRecovery || DEFAULT_AP_RECOVERY;
+        const currentAp = u.status.ap || 0;
+        units[key] = {
+            ...u,
+            status: { ...u.status, ap: Math.min(currentAp + recovery, u.status.maxAp) }
+        };
+    });
+
+    return {
+        ...state,
+        units,
+        phase: 'DECISION',
+        timer: DECISION_TIME,
+        actionQueue: [],
+        turn: state.turn + 1
+    };
+};
+
+// Headless: one full turn (player input -> AI -> resolution -> AP recovery)
+export const simulateTurn = (state: GameState, playerActions: ActionRequest[]): TurnResult => {
+    const planned = beginExecution(playerActions.reduce(enqueueAction, state));
+    const { state: resolved, events } = resolveTurn(planned, planned.actionQueue);
+    return { state: beginDecision(resolved), events };
+};
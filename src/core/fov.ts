@@ -1,14 +1,68 @@
-// Recursive Shadowcasting Algorithm for FOV
-import type { Coordinate, FloorData } from './types';
-
-// Multipliers for transforming coordinates into different octants
-const OCTANTS = [
-    [1, 0, 0, -1, -1, 0, 0, 1],
-    [0, 1, -1, 0, 0, -1, 1, 0],
-    [0, 1, 1, 0, 0, -1, -1, 0],
-    [1, 0, 0, 1, -1, 0, 0, -1],
+// Symmetric Recursive Shadowcasting for FOV
+// Adapted from Albert Ford's "Symmetric Shadowcasting":
+// - Floor tiles are visible exactly when a line from the origin's center reaches them,
+//   so vision is symmetric: if A sees B, B sees A.
+// - No gaps leak through diagonal wall corners, and every tile in range is covered.
+// - Slopes use exact integer fractions so the symmetry test never suffers from rounding.
+import type { Coordinate, FloorData, Tile } from './types';
+
+const OPAQUE = 1; // Tiles at or above this opacity block vision completely
+
+type Fraction = { n: number; d: number }; // d > 0
+
+type Row = {
+    depth: number;
+    start: Fraction;
+    end: Fraction;
+};
+
+// Quadrant transforms: (depth, col) -> (dx, dy)
+const QUADRANTS: ((depth: number, col: number) => [number, number])[] = [
+    (depth, col) => [-depth, col],
+    (depth, col) => [depth, col],
+    (depth, col) => [col, -depth],
+    (depth, col) => [col, depth],
 ];
 
+// slope of the tile's leading edge: (2 * col - 1) / (2 * depth)
+const slope = (depth: number, col: number): Fraction => ({ n: 2 * col - 1, d: 2 * depth });
+
+// floor(depth * s + 0.5)
+const roundTiesUp = (depth: number, s: Fraction) => Math.floor((2 * depth * s.n + s.d) / (2 * s.d));
+
+// ceil(depth * s - 0.5)
+const roundTiesDown = (depth: number, s: Fraction) => Math.ceil((2 * depth * s.n - s.d) / (2 * s.d));
+
+// col lies within [depth * start, depth * end]
+const isSymmetric = (row: Row, col: number) =>
+    col * row.start.d >= row.depth * row.start.n && col * row.end.d <= row.depth * row.end.n;
+
+export const tileKey = (x: number, y: number, floor: number) => `${x},${y},${floor}`;
+
+// Sum of the partial opacities (smoke, foliage, ...) strictly between two tiles.
+// Fully opaque tiles are left to the shadowcaster.
+const partialOpacityBetween = (floor: Tile[][], ax: number, ay: number, bx: number, by: number): number => {
+    const dx = Math.abs(bx - ax);
+    const dy = Math.abs(by - ay);
+    const sx = ax < bx ? 1 : -1;
+    const sy = ay < by ? 1 : -1;
+    let err = dx - dy;
+    let x = ax;
+    let y = ay;
+    let total = 0;
+
+    while (true) {
+        const e2 = 2 * err;
+        if (e2 > -dy) { err -= dy; x += sx; }
+        if (e2 < dx) { err += dx; y += sy; }
+        if (x === bx && y === by) break;
+
+        const opacity = floor[x][y].metadata.opacity;
+        if (opacity < OPAQUE) total += opacity;
+    }
+    return total;
+};
+
 export const calculateFOV = (
     origin: Coordinate,
     range: number,
@@ -16,178 +70,75 @@ export const calculateFOV = (
 ): Set<string> => {
     const visibleTiles = new Set<string>();
     const floor = floorData[origin.floor];
-
     if (!floor) return visibleTiles;
 
     const width = floor.length;
     const height = floor[0].length;
-
-    // Helper to add visible tile
-    const reveal = (x: number, y: number) => {
-        visibleTiles.add(`${x},${y}`);
-    };
-
-    // Always reveal origin
-    reveal(origin.x, origin.y);
-
-    // Recursive shadowcasting function
-    const scan = (
-        y: number,
-        startSlope: number,
-        endSlope: number,
-        transform: (x: number, y: number) => [number, number]
-    ) => {
-        if (startSlope >= endSlope) return;
-
-        let x = y + 1; // Not exactly x, but 'row' depth?
-        // Wait, standard algorithm iterates rows. Let's stick to standard names.
-        // Depth = y (in local coords), Row = x? 
-        // Let's use 'row' and 'col'.
-    };
-
-    // Let's implement a simpler standard Shadowcasting
-    // Adapted from roguelike tutorials
-
-    // Project coordinates
-    // row: distance from origin
-    // col: position along the row
-
-    for (let octant = 0; octant < 8; octant++) {
-        refreshOctant(octant, origin, range, width, height, floor, visibleTiles);
-    }
-
-    return visibleTiles;
-};
-
-function refreshOctant(
-    octant: number,
-    origin: Coordinate,
-    range: number,
-    width: number,
-    height: number,
-    floor: any[][],
-    visibleTiles: Set<string>
-) {
-    const shadowLine = new ShadowLine();
-    for (let row = 1; row <= range; row++) {
-        let prevTileOpaque = false; // Is previous tile opaque?
-
-        for (let col = 0; col <= row; col++) {
-            const [dx, dy] = transformOctant(row, col, octant);
-            const x = origin.x + dx;
-            const y = origin.y + dy;
-
-            // Bounds check
-            if (x < 0 || x >= width || y < 0 || y >= height) continue;
-
-            // Distance check (Circle)
-            if (dx * dx + dy * dy > range * range) continue;
-
-            const fullShadow = shadowLine.isInShadow(col, row); // Check if tile is in shadow
-            if (fullShadow) {
-                // Determine if we see it?
-                // Usually if in full shadow, not visible.
-                continue;
-            }
-
-            // It's visible! (Or partially)
-            visibleTiles.add(`${x},${y}`);
-
-            // Check opacity
-            // If this tile is opaque (wall), it casts a shadow
-            const tile = floor[x][y];
-            const isOpaque = tile.metadata.opacity > 0;
-
-            if (isOpaque) {
-                if (!prevTileOpaque) {
-                    // Start of a blocking sequence
-                    // Add simple shadow
-                    shadowLine.addShadow(col, row);
-                    // Note: This is an overly simplified shadowcasting (Line based).
-                    // A proper recursive one is better but harder to implement in one shot without robust lib.
-                    // Let's stick to a simpler Symetric Shadowcasting or just Raycasting for 360?
-                    // Raycasting 360 (360 rays) is inefficient but easy.
-                    // Recursive Shadowcasting is best.
+    const inBounds = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
+
+    // Candidates before the partial-opacity pass
+    const lit = new Set<number>();
+    const mark = (x: number, y: number) => lit.add(x * height + y);
+
+    mark(origin.x, origin.y);
+
+    for (const transform of QUADRANTS) {
+        const toMap = (depth: number, col: number): [number, number] => {
+            const [dx, dy] = transform(depth, col);
+            return [origin.x + dx, origin.y + dy];
+        };
+        // Out of bounds counts as wall (but is never revealed)
+        const isWall = (depth: number, col: number) => {
+            const [x, y] = toMap(depth, col);
+            return !inBounds(x, y) || floor[x][y].metadata.opacity >= OPAQUE;
+        };
+        const inRange = (depth: number, col: number) => depth * depth + col * col <= range * range;
+
+        const scan = (row: Row) => {
+            if (row.depth > range) return;
+
+            let prevWall: boolean | null = null;
+            const minCol = roundTiesUp(row.depth, row.start);
+            const maxCol = roundTiesDown(row.depth, row.end);
+
+            for (let col = minCol; col <= maxCol; col++) {
+                const wall = isWall(row.depth, col);
+
+                if ((wall || isSymmetric(row, col)) && inRange(row.depth, col)) {
+                    const [x, y] = toMap(row.depth, col);
+                    if (inBounds(x, y)) mark(x, y);
+                }
+                if (prevWall === true && !wall) {
+                    row.start = slope(row.depth, col);
                 }
-                prevTileOpaque = true;
-            } else {
-                if (prevTileOpaque) {
-                    // End of blocking sequence
-                    prevTileOpaque = false;
+                if (prevWall === false && wall) {
+                    scan({ depth: row.depth + 1, start: row.start, end: slope(row.depth, col) });
                 }
+                prevWall = wall;
             }
-        }
-    }
-}
-
-// ---------------------------------------------------------
-// Alternative: Simple Raycasting for 8-way consistency & Ease
-// ---------------------------------------------------------
 
-export const calculateSimpleFOV = (
-    origin: Coordinate,
-    range: number,
-    floorData: FloorData
-): Set<string> => {
-    const visibleTiles = new Set<string>();
-    const floor = floorData[origin.floor];
-    if (!floor) return visibleTiles;
-
-    const width = floor.length;
-    const height = floor[0].length;
-
-    visibleTiles.add(`${origin.x},${origin.y},${origin.floor}`);
-
-    // Cast rays to all perimeter tiles of the box (range * 2)
-    // Or just 360 degrees
-    for (let i = 0; i < 360; i += 2) { // Every 2 degrees
-        const rad = (i * Math.PI) / 180;
-        const dx = Math.cos(rad);
-        const dy = Math.sin(rad);
-
-        let ox = origin.x + 0.5;
-        let oy = origin.y + 0.5;
-
-        for (let r = 0; r < range; r += 0.5) { // Step size 0.5
-            ox += dx * 0.5;
-            oy += dy * 0.5;
-
-            const tx = Math.floor(ox);
-            const ty = Math.floor(oy);
-
-            // Bounds
-            if (tx < 0 || tx >= width || ty < 0 || ty >= height) break;
+            if (prevWall === false) {
+                scan({ depth: row.depth + 1, start: row.start, end: row.end });
+            }
+        };
 
-            visibleTiles.add(`${tx},${ty},${origin.floor}`);
+        scan({ depth: 1, start: { n: -1, d: 1 }, end: { n: 1, d: 1 } });
+    }
 
-            // Check Block
-            if (floor[tx][ty].metadata.opacity >= 1) {
-                break; // Wall blocks view
-            }
+    // Partial opacity accumulates along the line of sight. Taking the clearer of the two
+    // directions keeps the result symmetric.
+    lit.forEach(index => {
+        const x = Math.floor(index / height);
+        const y = index % height;
+        if (x !== origin.x || y !== origin.y) {
+            const obscurity = Math.min(
+                partialOpacityBetween(floor, origin.x, origin.y, x, y),
+                partialOpacityBetween(floor, x, y, origin.x, origin.y)
+            );
+            if (obscurity >= OPAQUE) return;
         }
-    }
+        visibleTiles.add(tileKey(x, y, origin.floor));
+    });
 
     return visibleTiles;
 };
-
-
-// Helper for octant transform (if used)
-function transformOctant(row: number, col: number, octant: number): [number, number] {
-    switch (octant) {
-        case 0: return [col, -row];
-        case 1: return [row, -col];
-        case 2: return [row, col];
-        case 3: return [col, row];
-        case 4: return [-col, row];
-        case 5: return [-row, col];
-        case 6: return [-row, -col];
-        case 7: return [-col, -row];
-    }
-    return [0, 0];
-}
-
-class ShadowLine {
-    // Placeholder for complex shadow management
-    isInShadow(col: number, row: number) { return false; }
-    addShadow(col: number, row: number) { }
-}
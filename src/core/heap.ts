@@ -0,0 +1,80 @@
+// Binary min-heap of integer items (tile indices) keyed by a numeric priority,
+// with an optional second key to break ties.
+// Stale entries are not removed: searches push the item again with a better
+// priority and skip it when it comes out a second time.
+const isBefore = (priority: number, tieBreak: number, otherPriority: number, otherTieBreak: number) =>
+    priority < otherPriority || (priority === otherPriority && tieBreak < otherTieBreak);
+
+export class MinHeap {
+    private items: number[] = [];
+    private priorities: number[] = [];
+    private tieBreaks: number[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(item: number, priority: number, tieBreak = 0): void {
+        let index = this.items.length;
+        this.items.push(item);
+        this.priorities.push(priority);
+        this.tieBreaks.push(tieBreak);
+
+        // Bubble up: move parents down into the hole until the new entry fits
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (!isBefore(priority, tieBreak, this.priorities[parent], this.tieBreaks[parent])) break;
+            this.moveTo(parent, index);
+            index = parent;
+        }
+        this.set(index, item, priority, tieBreak);
+    }
+
+    // Returns -1 when empty
+    pop(): number {
+        const length = this.items.length;
+        if (length === 0) return -1;
+
+        const top = this.items[0];
+        const item = this.items[length - 1];
+        const priority = this.priorities[length - 1];
+        const tieBreak = this.tieBreaks[length - 1];
+        this.items.pop();
+        this.priorities.pop();
+        this.tieBreaks.pop();
+
+        const size = length - 1;
+        if (size === 0) return top;
+
+        // Sink down: move the smaller child up into the hole
+        let index = 0;
+        while (true) {
+            const left = index * 2 + 1;
+            if (left >= size) break;
+            const right = left + 1;
+            const child = right < size &&
+                isBefore(this.priorities[right], this.tieBreaks[right], this.priorities[left], this.tieBreaks[left]) ? right : left;
+            if (!isBefore(this.priorities[child], this.tieBreaks[child], priority, tieBreak)) break;
+            this.moveTo(child, index);
+            index = child;
+        }
+        this.set(index, item, priority, tieBreak);
+        return top;
+    }
+
+    clear(): void {
+        this.items.length = 0;
+        this.priorities.length = 0;
+        this.tieBreaks.length = 0;
+    }
+
+    private moveTo(from: number, to: number): void {
+        this.set(to, this.items[from], this.priorities[from], this.tieBreaks[from]);
+    }
+
+    private set(index: number, item: number, priority: number, tieBreak: number): void {
+        this.items[index] = item;
+        this.priorities[index] = priority;
+        this.tieBreaks[index] = tieBreak;
+    }
+}
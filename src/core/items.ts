@@ -0,0 +1,202 @@
+import type { Coordinate, FloorData, Inventory, ItemDefinition, ItemStack, Unit, UnitType } from './types';
+import { SOUND_VOLUMES } from './sound';
+import { calculateFOV } from './fov';
+
+/**
+ * Item Module
+ * -----------
+ * Item definitions and pure inventory helpers.
+ * - Units carry an Inventory of stacks (item id + quantity); definitions live here.
+ * - Limits: MAX_SLOTS stacks and MAX_WEIGHT in total. A stack holds up to maxStack items.
+ * - The equipped weapon is one of the carried items; dropping the last one unequips it.
+ * - Keys are never used: carrying one opens every door whose lockId matches its unlocks.
+ * Inventory changes happen in the engine (USE / DROP / EQUIP / PICKUP actions).
+ */
+
+export const MAX_SLOTS = 8;
+export const MAX_WEIGHT = 12;
+
+export const EQUIP_COST = 1;
+export const DROP_COST = 1;
+export const PICKUP_COST = 1;
+
+export const ITEMS: Record<string, ItemDefinition> = {
+    kitchen_knife: {
+        id: 'kitchen_knife', name: '부엌칼', category: 'WEAPON', weight: 0.5, maxStack: 1,
+        weapon: { damage: [1, 2], accuracy: 0.85, critChance: 0.15, critMultiplier: 2, knockback: 0 },
+        description: '가볍지만 무딘 칼. 잘 맞고 가끔 급소를 찌른다.'
+    },
+    crowbar: {
+        id: 'crowbar', name: '쇠지렛대', category: 'WEAPON', weight: 2.5, maxStack: 1,
+        weapon: { damage: [2, 3], accuracy: 0.7, critChance: 0.1, critMultiplier: 2, knockback: 1 },
+        description: '무겁고 묵직한 한 방. 맞은 상대를 밀쳐낸다.'
+    },
+    pistol: {
+        id: 'pistol', name: '권총', category: 'WEAPON', weight: 1.0, maxStack: 1,
+        weapon: {
+            damage: [3, 5], accuracy: 0.8, critChance: 0.1, critMultiplier: 2, knockback: 0,
+            range: 8, optimalRange: 4, rangePenalty: 0.06, ammo: 'pistol_round', shotVolume: SOUND_VOLUMES.SHOT
+        },
+        description: '강력하지만 총성이 마을 전체를 깨운다.'
+    },
+    pistol_round: {
+        id: 'pistol_round', name: '권총 탄약', category: 'AMMO', weight: 0.02, maxStack: 30,
+        description: '권총에 쓰는 탄약.'
+    },
+    bow: {
+        id: 'bow', name: '활', category: 'WEAPON', weight: 1.0, maxStack: 1,
+        weapon: {
+            damage: [2, 3], accuracy: 0.75, critChance: 0.15, critMultiplier: 2, knockback: 0,
+            range: 7, optimalRange: 3, rangePenalty: 0.08, ammo: 'arrow', shotVolume: 2
+        },
+        description: '조용한 원거리 무기. 화살이 필요하다.'
+    },
+    arrow: {
+        id: 'arrow', name: '화살', category: 'AMMO', weight: 0.05, maxStack: 20,
+        description: '활에 쓰는 화살.'
+    },
+    brick: {
+        id: 'brick', name: '벽돌', category: 'WEAPON', weight: 1.5, maxStack: 3,
+        weapon: {
+            damage: [1, 2], accuracy: 0.6, critChance: 0.05, critMultiplier: 2, knockback: 0,
+            range: 4, optimalRange: 2, rangePenalty: 0.1, ammo: 'brick', shotVolume: 1
+        },
+        description: '던지는 무기. 던진 벽돌은 사라진다.'
+    },
+    bandage: {
+        id: 'bandage', name: '붕대', category: 'CONSUMABLE', weight: 0.1, maxStack: 5,
+        useCost: 2, heal: 20, description: 'HP 20 회복.'
+    },
+    painkillers: {
+        id: 'painkillers', name: '진통제', category: 'CONSUMABLE', weight: 0.1, maxStack: 3,
+        useCost: 1, heal: 10, description: 'HP 10 회복. 빠르게 삼킬 수 있다.'
+    },
+    glass_bottle: {
+        id: 'glass_bottle', name: '유리병', category: 'NOISEMAKER', weight: 0.4, maxStack: 3,
+        useCost: 2, throwRange: 6, noise: { kind: 'BREAK', volume: SOUND_VOLUMES.BREAK },
+        description: '던지면 깨지는 소리로 적을 유인한다.'
+    },
+    firecracker: {
+        id: 'firecracker', name: '폭죽', category: 'NOISEMAKER', weight: 0.2, maxStack: 3,
+        useCost: 3, throwRange: 5, noise: { kind: 'BANG', volume: SOUND_VOLUMES.BANG },
+        description: '마을 절반이 들을 만큼 시끄럽다.'
+    },
+    house_key: {
+        id: 'house_key', name: '현관 열쇠', category: 'KEY', weight: 0, maxStack: 1,
+        unlocks: 'house', description: '어느 집의 열쇠.'
+    },
+};
+
+// Starting kit of each unit type
+const STARTING_ITEMS: Record<UnitType, ItemStack[]> = {
+    PLAYER: [
+        { itemId: 'kitchen_knife', quantity: 1 },
+        { itemId: 'bandage', quantity: 2 },
+        { itemId: 'glass_bottle', quantity: 2 },
+    ],
+    ENEMY: [],
+};
+
+export const createStartingInventory = (type: UnitType): Inventory | undefined => {
+    if (type !== 'PLAYER') return undefined;
+    const items = STARTING_ITEMS[type].map(stack => ({ ...stack }));
+    return { items, equippedWeapon: items.find(s => ITEMS[s.itemId].category === 'WEAPON')?.itemId ?? null };
+};
+
+export const countItem = (inventory: Inventory, itemId: string): number =>
+    inventory.items.filter(s => s.itemId === itemId).reduce((sum, s) => sum + s.quantity, 0);
+
+export const getInventoryWeight = (inventory: Inventory): number =>
+    inventory.items.reduce((sum, s) => sum + (ITEMS[s.itemId]?.weight ?? 0) * s.quantity, 0);
+
+// Fills existing stacks first, then opens new slots
+const stackItems = (items: ItemStack[], itemId: string, quantity: number): ItemStack[] | null => {
+    const def = ITEMS[itemId];
+    if (!def) return null;
+
+    const next = items.map(s => ({ ...s }));
+    let left = quantity;
+    next.forEach(s => {
+        if (s.itemId !== itemId || left === 0) return;
+        const moved = Math.min(def.maxStack - s.quantity, left);
+        s.quantity += moved;
+        left -= moved;
+    });
+    while (left > 0) {
+        if (next.length >= MAX_SLOTS) return null;
+        const moved = Math.min(def.maxStack, left);
+        next.push({ itemId, quantity: moved });
+        left -= moved;
+    }
+    return next;
+};
+
+export const canAddItem = (inventory: Inventory, itemId: string, quantity = 1): boolean => {
+    const def = ITEMS[itemId];
+    if (!def) return false;
+    if (getInventoryWeight(inventory) + def.weight * quantity > MAX_WEIGHT) return false;
+    return stackItems(inventory.items, itemId, quantity) !== null;
+};
+
+export const addItem = (inventory: Inventory, itemId: string, quantity = 1): Inventory => {
+    const items = stackItems(inventory.items, itemId, quantity);
+    if (!items) throw new Error(`Cannot add ${quantity} x ${itemId}: inventory full`);
+    return { ...inventory, items };
+};
+
+// Takes from the last stacks first; empty stacks free their slot
+export const removeItem = (inventory: Inventory, itemId: string, quantity = 1): Inventory => {
+    let left = quantity;
+    const items = [...inventory.items].reverse().map(s => {
+        if (s.itemId !== itemId || left === 0) return s;
+        const taken = Math.min(s.quantity, left);
+        left -= taken;
+        return { ...s, quantity: s.quantity - taken };
+    }).reverse().filter(s => s.quantity > 0);
+
+    const stillCarried = items.some(s => s.itemId === inventory.equippedWeapon);
+    return { items, equippedWeapon: stillCarried ? inventory.equippedWeapon : null };
+};
+
+// Splits stacks into what fits in the bag (as many of each as possible) and what does not
+export const fitItems = (inventory: Inventory, stacks: ItemStack[]): { taken: ItemStack[]; rest: ItemStack[] } => {
+    const taken: ItemStack[] = [];
+    const rest: ItemStack[] = [];
+    let current = inventory;
+
+    stacks.forEach(({ itemId, quantity }) => {
+        let fits = quantity;
+        while (fits > 0 && !canAddItem(current, itemId, fits)) fits--;
+        if (fits > 0) {
+            current = addItem(current, itemId, fits);
+            taken.push({ itemId, quantity: fits });
+        }
+        if (quantity > fits) rest.push({ itemId, quantity: quantity - fits });
+    });
+    return { taken, rest };
+};
+
+// Walkable tiles with a clear line from the thrower, within range ("x,y,floor" keys)
+export const getThrowTargets = (floor: FloorData, from: Coordinate, range: number): Set<string> => {
+    const targets = new Set<string>();
+    calculateFOV(from, range, floor).forEach(key => {
+        const [x, y] = key.split(',').map(Number);
+        if (floor[from.floor][x][y].metadata.walkable) targets.add(key);
+    });
+    return targets;
+};
+
+// Lock ids the unit carries a key for
+export const getKeys = (unit: Unit): string[] =>
+    (unit.inventory?.items ?? []).flatMap(s => ITEMS[s.itemId]?.unlocks ?? []);
+
+// A locked door lets nobody through without its key
+export const isLockedFor = (floor: FloorData, at: Coordinate, unit: Unit): boolean => {
+    const lockId = floor[at.floor]?.[at.x]?.[at.y]?.metadata.lockId;
+    return !!lockId && !getKeys(unit).includes(lockId);
+};
+
+export const getEquippedWeapon = (unit: Unit): ItemDefinition | undefined => {
+    const itemId = unit.inventory?.equippedWeapon;
+    return itemId ? ITEMS[itemId] : undefined;
+};
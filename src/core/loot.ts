@@ -0,0 +1,192 @@
+import type { Container, ContainerKind, Coordinate, FloorData, ItemStack } from './types';
+import { PRNG } from './rng';
+import { tileKey } from './fov';
+import { SOUND_VOLUMES } from './sound';
+
+/**
+ * Loot Module
+ * -----------
+ * Searchable containers and what is inside them.
+ * - Each container kind has a search cost (AP of work, spread over as many turns as needed)
+ *   and a noise factor: rummaging through a car is louder than patting down a corpse.
+ * - Loot tables are picked by location: a ground-floor cabinet is a kitchen,
+ *   an upstairs one a bathroom; cars and corpses have their own tables.
+ * - Contents are rolled when the map is made, from their own stream derived from the seed,
+ *   so adding containers does not change the layout or the enemies of a seed.
+ */
+
+type ContainerDefinition = {
+    name: string;
+    searchCost: number;
+    noiseFactor: number; // Times SOUND_VOLUMES.SEARCH, per AP of work
+};
+
+export const CONTAINER_KINDS: Record<ContainerKind, ContainerDefinition> = {
+    CABINET: { name: '찬장', searchCost: 4, noiseFactor: 1.0 },
+    CAR: { name: '차량', searchCost: 8, noiseFactor: 1.5 },
+    CORPSE: { name: '시체', searchCost: 3, noiseFactor: 0.5 },
+};
+
+type LootEntry = {
+    itemId: string;
+    weight: number;
+    quantity: [number, number];
+};
+
+type LootTable = {
+    rolls: [number, number]; // Number of draws (0 = may be empty)
+    entries: LootEntry[];
+};
+
+export const LOOT_TABLES: Record<string, LootTable> = {
+    KITCHEN: {
+        rolls: [0, 2],
+        entries: [
+            { itemId: 'kitchen_knife', weight: 3, quantity: [1, 1] },
+            { itemId: 'glass_bottle', weight: 5, quantity: [1, 2] },
+            { itemId: 'painkillers', weight: 1, quantity: [1, 1] },
+            { itemId: 'house_key', weight: 1, quantity: [1, 1] },
+        ],
+    },
+    BATHROOM: {
+        rolls: [1, 2],
+        entries: [
+            { itemId: 'bandage', weight: 5, quantity: [1, 3] },
+            { itemId: 'painkillers', weight: 4, quantity: [1, 2] },
+            { itemId: 'glass_bottle', weight: 1, quantity: [1, 1] },
+        ],
+    },
+    CAR: {
+        rolls: [1, 3],
+        entries: [
+            { itemId: 'crowbar', weight: 2, quantity: [1, 1] },
+            { itemId: 'firecracker', weight: 3, quantity: [1, 2] },
+            { itemId: 'painkillers', weight: 2, quantity: [1, 1] },
+            { itemId: 'glass_bottle', weight: 2, quantity: [1, 2] },
+            { itemId: 'pistol', weight: 1, quantity: [1, 1] },
+            { itemId: 'pistol_round', weight: 2, quantity: [3, 8] },
+            { itemId: 'bow', weight: 1, quantity: [1, 1] },
+            { itemId: 'arrow', weight: 1, quantity: [3, 6] },
+            { itemId: 'brick', weight: 1, quantity: [1, 2] },
+        ],
+    },
+    CORPSE: {
+        rolls: [0, 2],
+        entries: [
+            { itemId: 'bandage', weight: 3, quantity: [1, 2] },
+            { itemId: 'house_key', weight: 2, quantity: [1, 1] },
+            { itemId: 'kitchen_knife', weight: 1, quantity: [1, 1] },
+            { itemId: 'firecracker', weight: 1, quantity: [1, 1] },
+            { itemId: 'pistol_round', weight: 1, quantity: [2, 6] },
+        ],
+    },
+};
+
+const CONTAINER_COUNTS: Record<ContainerKind, number> = {
+    CABINET: 8,
+    CAR: 4,
+    CORPSE: 3,
+};
+const MIN_SPACING = 3; // Chebyshev distance between containers
+const START_CLEARANCE = 4; // Nothing to loot right where the survivor stands
+
+export const rollLoot = (rng: PRNG, tableId: string): ItemStack[] => {
+    const table = LOOT_TABLES[tableId];
+    if (!table) return [];
+    const total = table.entries.reduce((sum, e) => sum + e.weight, 0);
+    const items: ItemStack[] = [];
+
+    const rolls = rng.range(table.rolls[0], table.rolls[1]);
+    for (let i = 0; i < rolls; i++) {
+        let pick = rng.next() * total;
+        const entry = table.entries.find(e => (pick -= e.weight) < 0) ?? table.entries[table.entries.length - 1];
+        const quantity = rng.range(entry.quantity[0], entry.quantity[1]);
+
+        const stack = items.find(s => s.itemId === entry.itemId);
+        if (stack) stack.quantity += quantity;
+        else items.push({ itemId: entry.itemId, quantity });
+    }
+    return items;
+};
+
+// Loot table of a container at a location
+export const getLootTable = (kind: ContainerKind, at: Coordinate): string => {
+    if (kind === 'CABINET') return at.floor > 0 ? 'BATHROOM' : 'KITCHEN';
+    return kind;
+};
+
+export const isSearched = (container: Container) => container.progress >= container.searchCost;
+
+// Searchable from the container's tile or any tile around it
+export const isWithinReach = (container: Container, at: Coordinate) =>
+    container.position.floor === at.floor &&
+    Math.max(Math.abs(container.position.x - at.x), Math.abs(container.position.y - at.y)) <= 1;
+
+// Volume of one AP of rummaging
+export const getSearchVolume = (container: Container) =>
+    SOUND_VOLUMES.SEARCH * CONTAINER_KINDS[container.kind].noiseFactor;
+
+const typeAt = (floor: FloorData, x: number, y: number, z: number) => floor[z]?.[x]?.[y]?.type;
+
+const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+const AROUND = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+
+// Where each kind of container can stand
+const isCandidate = (floor: FloorData, kind: ContainerKind, x: number, y: number, z: number): boolean => {
+    const type = typeAt(floor, x, y, z);
+    switch (kind) {
+        case 'CABINET':
+            // Against a wall, never blocking a doorway or the stairs
+            return type === 'FLOOR' &&
+                NEIGHBOURS.some(([dx, dy]) => typeAt(floor, x + dx, y + dy, z) === 'WALL') &&
+                !NEIGHBOURS.some(([dx, dy]) => {
+                    const t = typeAt(floor, x + dx, y + dy, z);
+                    return t === 'DOOR' || t === 'STAIRS_UP' || t === 'STAIRS_DOWN';
+                });
+        case 'CAR':
+            // Out on the open street
+            return z === 0 && type === 'CONCRETE' &&
+                AROUND.every(([dx, dy]) => {
+                    const t = typeAt(floor, x + dx, y + dy, z);
+                    return t === 'CONCRETE' || t === 'MUD';
+                });
+        case 'CORPSE':
+            return z === 0 && (type === 'CONCRETE' || type === 'MUD' || type === 'FLOOR');
+    }
+};
+
+// Picks container spots on reachable tiles and marks them interactable
+export const placeContainers = (floor: FloorData, reachable: Set<string>, start: Coordinate, seed: number): Container[] => {
+    const rng = new PRNG((seed ^ 0x1007ab1e) >>> 0);
+    const containers: Container[] = [];
+    const isFree = (at: Coordinate) => {
+        const nearStart = at.floor === start.floor && Math.abs(at.x - start.x) + Math.abs(at.y - start.y) < START_CLEARANCE;
+        return !nearStart && containers.every(c =>
+            c.position.floor !== at.floor || Math.max(Math.abs(c.position.x - at.x), Math.abs(c.position.y - at.y)) >= MIN_SPACING
+        );
+    };
+
+    (Object.keys(CONTAINER_COUNTS) as ContainerKind[]).forEach(kind => {
+        const candidates: Coordinate[] = [];
+        floor.forEach((level, z) => level.forEach((row, x) => row.forEach((_, y) => {
+            if (reachable.has(tileKey(x, y, z)) && isCandidate(floor, kind, x, y, z)) candidates.push({ x, y, floor: z });
+        })));
+
+        for (let placed = 0; placed < CONTAINER_COUNTS[kind] && candidates.length > 0;) {
+            const at = candidates.splice(rng.range(0, candidates.length - 1), 1)[0];
+            if (!isFree(at)) continue;
+
+            containers.push({
+                id: `${kind.toLowerCase()}-${placed}`,
+                kind,
+                position: at,
+                items: rollLoot(rng, getLootTable(kind, at)),
+                searchCost: CONTAINER_KINDS[kind].searchCost,
+                progress: 0,
+            });
+            floor[at.floor][at.x][at.y].metadata.isInteractable = true;
+            placed++;
+        }
+    });
+    return containers;
+};
@@ -0,0 +1,261 @@
+import type { AIMemory, Container, ContainerKind, Coordinate, EnemyArchetypeId, FloorData, MapFile, MapFileTile, MapFileUnit, Tile, TileMetadata, TileType, Unit } from './types';
+import { DEFAULT_UNIT_NAMES, DEFAULT_UNIT_STATUS } from './mapGenerator';
+import { createTile, TILE_TYPES } from './tiles';
+import { createStartingInventory, ITEMS } from './items';
+import { CONTAINER_KINDS } from './loot';
+import { ENEMY_ARCHETYPES, createEnemy } from './enemies';
+
+/**
+ * Map File Module
+ * ---------------
+ * Hand-authored scenarios stored as JSON:
+ * - floors: one ASCII layer per floor, one string per row (x), one character per column (y)
+ * - legend: character -> TileType, merged over DEFAULT_LEGEND
+ * - tiles: optional per-tile metadata overrides (e.g. a quieter carpet, a smoky room, a locked door)
+ * - containers: optional searchable stashes with hand-picked contents
+ * - units: id, type and position, plus optional enemy archetype, name / facing / status
+ *   overrides, initial AIMemory and inventory (an archetype supplies the default name and status)
+ * buildMapFromFile() validates the whole file first and reports every problem at once.
+ */
+
+export const MAP_FILE_VERSION = 1;
+
+export const DEFAULT_LEGEND: Record<string, TileType> = {
+    '.': 'CONCRETE',
+    ',': 'FLOOR',
+    '+': 'DOOR',
+    '#': 'WALL',
+    '~': 'MUD',
+    '<': 'STAIRS_UP',
+    '>': 'STAIRS_DOWN',
+    ' ': 'EMPTY',
+    '=': 'STAIRS',
+};
+
+const UNIT_TYPES: Unit['type'][] = ['PLAYER', 'ENEMY'];
+const FACINGS: Unit['facing'][] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+const ARCHETYPES = Object.keys(ENEMY_ARCHETYPES) as EnemyArchetypeId[];
+const AI_STATES: AIMemory['state'][] = ['IDLE', 'SLEEP', 'WANDER', 'CHASE', 'SEARCH'];
+
+const describe = (c: Coordinate) => `(${c.x},${c.y}) on floor ${c.floor}`;
+
+// Structural check of parsed JSON (or an imported module) before validation
+export const readMapFile = (data: unknown): MapFile => {
+    const file = data as MapFile;
+    if (!file || typeof file !== 'object' || !Array.isArray(file.floors) || !Array.isArray(file.units)) {
+        throw new Error('Not a Fallen Village map file (expected "floors" and "units")');
+    }
+    if (file.version !== MAP_FILE_VERSION) {
+        throw new Error(`Unsupported map file version ${file.version}`);
+    }
+    return file;
+};
+
+export const parseMapFile = (json: string): MapFile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('Map file is not valid JSON');
+    }
+    return readMapFile(data);
+};
+
+export const getLegend = (file: MapFile): Record<string, TileType> => ({ ...DEFAULT_LEGEND, ...file.legend });
+
+// Every problem in the file; an empty list means the map can be loaded
+export const validateMapFile = (file: MapFile): string[] => {
+    const errors: string[] = [];
+    const legend = getLegend(file);
+
+    Object.entries(legend).forEach(([char, type]) => {
+        if (char.length !== 1) errors.push(`Legend key "${char}" must be a single character`);
+        if (!TILE_TYPES.includes(type)) errors.push(`Legend maps "${char}" to unknown tile type "${type}"`);
+    });
+
+    if (file.floors.length === 0) {
+        errors.push('Map has no floors');
+        return errors;
+    }
+
+    const width = file.floors[0].length;
+    const height = file.floors[0][0]?.length ?? 0;
+    if (width === 0 || height === 0) errors.push('Floor 0 is empty');
+
+    file.floors.forEach((rows, z) => {
+        if (rows.length !== width) errors.push(`Floor ${z} has ${rows.length} rows, expected ${width}`);
+        rows.forEach((row, x) => {
+            if (row.length !== height) errors.push(`Floor ${z} row ${x} has ${row.length} columns, expected ${height}`);
+            [...row].forEach((char, y) => {
+                if (!(char in legend)) errors.push(`Unknown tile "${char}" at ${describe({ x, y, floor: z })}`);
+            });
+        });
+    });
+    if (errors.length > 0) return errors; // Tile checks below assume a rectangular, known grid
+
+    const typeAt = (c: Coordinate) => legend[file.floors[c.floor]?.[c.x]?.[c.y]];
+
+    // Stairs come in pairs: UP on floor z above DOWN on floor z + 1
+    file.floors.forEach((rows, z) => rows.forEach((row, x) => [...row].forEach((char, y) => {
+        const at = { x, y, floor: z };
+        if (legend[char] === 'STAIRS_UP' && typeAt({ x, y, floor: z + 1 }) !== 'STAIRS_DOWN') {
+            errors.push(`STAIRS_UP at ${describe(at)} has no STAIRS_DOWN partner on floor ${z + 1}`);
+        }
+        if (legend[char] === 'STAIRS_DOWN' && typeAt({ x, y, floor: z - 1 }) !== 'STAIRS_UP') {
+            errors.push(`STAIRS_DOWN at ${describe(at)} has no STAIRS_UP partner on floor ${z - 1}`);
+        }
+    })));
+
+    (file.tiles ?? []).forEach((tile, i) => {
+        const p = tile.position;
+        if (!p || p.floor < 0 || p.floor >= file.floors.length || p.x < 0 || p.x >= width || p.y < 0 || p.y >= height) {
+            errors.push(`Tile override #${i} is out of bounds`);
+        } else if (tile.metadata.lockId !== undefined && typeAt(p) !== 'DOOR') {
+            errors.push(`Tile override #${i} puts a lock on ${typeAt(p)} at ${describe(p)} (only doors can be locked)`);
+        }
+    });
+
+    (file.containers ?? []).forEach((container, i) => {
+        const p = container.position;
+        if (!(container.kind in CONTAINER_KINDS)) errors.push(`Container #${i} has unknown kind "${container.kind}"`);
+        if (!p || p.floor < 0 || p.floor >= file.floors.length || p.x < 0 || p.x >= width || p.y < 0 || p.y >= height) {
+            errors.push(`Container #${i} is out of bounds`);
+        }
+        container.items?.forEach(stack => {
+            if (!ITEMS[stack.itemId]) errors.push(`Container #${i} holds unknown item "${stack.itemId}"`);
+        });
+    });
+
+    const ids = new Set<string>();
+    const occupied = new Map<string, string>();
+    file.units.forEach((unit, i) => {
+        const label = unit.id ? `Unit "${unit.id}"` : `Unit #${i}`;
+        if (!unit.id) errors.push(`${label} has no id`);
+        else if (ids.has(unit.id)) errors.push(`${label} is defined twice`);
+        ids.add(unit.id);
+
+        if (!UNIT_TYPES.includes(unit.type)) errors.push(`${label} has unknown type "${unit.type}"`);
+        if (unit.archetype && !ARCHETYPES.includes(unit.archetype)) errors.push(`${label} has unknown archetype "${unit.archetype}"`);
+        else if (unit.archetype && unit.type !== 'ENEMY') errors.push(`${label} has an archetype but is not an ENEMY`);
+        if (unit.facing && !FACINGS.includes(unit.facing)) errors.push(`${label} has unknown facing "${unit.facing}"`);
+        if (unit.memory && !AI_STATES.includes(unit.memory.state)) errors.push(`${label} has unknown AI state "${unit.memory.state}"`);
+        unit.inventory?.items.forEach(stack => {
+            if (!ITEMS[stack.itemId]) errors.push(`${label} carries unknown item "${stack.itemId}"`);
+        });
+        if (unit.inventory?.equippedWeapon && !unit.inventory.items.some(s => s.itemId === unit.inventory!.equippedWeapon)) {
+            errors.push(`${label} equips "${unit.inventory.equippedWeapon}" without carrying it`);
+        }
+
+        const p = unit.position;
+        if (!p || ![p.x, p.y, p.floor].every(Number.isInteger)) {
+            errors.push(`${label} has no valid position`);
+            return;
+        }
+        if (p.floor < 0 || p.floor >= file.floors.length || p.x < 0 || p.x >= width || p.y < 0 || p.y >= height) {
+            errors.push(`${label} is out of bounds at ${describe(p)}`);
+            return;
+        }
+
+        const override = file.tiles?.find(t => t.position.x === p.x && t.position.y === p.y && t.position.floor === p.floor);
+        const type = typeAt(p);
+        if (!(override?.metadata.walkable ?? createTile(type, p).metadata.walkable)) {
+            errors.push(`${label} stands on ${type} at ${describe(p)}`);
+        }
+
+        const key = `${p.x},${p.y},${p.floor}`;
+        if (occupied.has(key)) errors.push(`${label} shares ${describe(p)} with "${occupied.get(key)}"`);
+        occupied.set(key, unit.id);
+    });
+
+    if (!file.units.some(u => u.type === 'PLAYER')) errors.push('Map has no PLAYER unit');
+
+    return errors;
+};
+
+const toUnit = (unit: MapFileUnit): Unit => {
+    const base = unit.archetype ? createEnemy(unit.id, unit.archetype, unit.position) : undefined;
+    const memory = unit.memory ?? base?.memory;
+    return {
+        id: unit.id,
+        type: unit.type,
+        faction: unit.faction ?? unit.type,
+        name: unit.name ?? base?.name ?? DEFAULT_UNIT_NAMES[unit.type],
+        position: { ...unit.position },
+        status: { ...(base?.status ?? DEFAULT_UNIT_STATUS[unit.type]), ...unit.status },
+        facing: unit.facing ?? 'DOWN',
+        ...(unit.archetype ? { archetype: unit.archetype } : {}),
+        ...(memory ? { memory: { ...memory } } : {}),
+        inventory: unit.inventory ? structuredClone(unit.inventory) : createStartingInventory(unit.type),
+    };
+};
+
+export const buildMapFromFile = (file: MapFile): { floor: FloorData; units: Record<string, Unit>; containers: Container[] } => {
+    const errors = validateMapFile(file);
+    if (errors.length > 0) {
+        throw new Error(`Invalid map${file.name ? ` "${file.name}"` : ''}:\n- ${errors.join('\n- ')}`);
+    }
+
+    const legend = getLegend(file);
+    const floor: FloorData = file.floors.map((rows, z) =>
+        rows.map((row, x) => [...row].map((char, y): Tile => createTile(legend[char], { x, y, floor: z })))
+    );
+    (file.tiles ?? []).forEach(({ position: p, metadata }) => {
+        Object.assign(floor[p.floor][p.x][p.y].metadata, metadata);
+    });
+
+    const units: Record<string, Unit> = {};
+    file.units.forEach(unit => {
+        units[unit.id] = toUnit(unit);
+    });
+
+    const containers = (file.containers ?? []).map((c, i): Container => {
+        floor[c.position.floor][c.position.x][c.position.y].metadata.isInteractable = true;
+        return {
+            id: `${c.kind.toLowerCase()}-${i}`,
+            kind: c.kind as ContainerKind,
+            position: { ...c.position },
+            items: (c.items ?? []).map(s => ({ ...s })),
+            searchCost: c.searchCost ?? CONTAINER_KINDS[c.kind].searchCost,
+            progress: 0,
+        };
+    });
+
+    return { floor, units, containers };
+};
+
+// The reverse of buildMapFromFile: default legend, metadata that differs from the
+// tile type's defaults as overrides, and every unit with its full status.
+export const createMapFile = (floor: FloorData, units: Unit[], name?: string): MapFile => {
+    const charOf = Object.fromEntries(Object.entries(DEFAULT_LEGEND).map(([char, type]) => [type, char])) as Record<TileType, string>;
+    const tiles: MapFileTile[] = [];
+
+    floor.forEach(level => level.forEach(row => row.forEach(tile => {
+        const defaults = createTile(tile.type, tile.coordinate).metadata;
+        const metadata: Partial<TileMetadata> = {};
+        // Optional fields (a lock) have no default, so the tile's own keys are checked too
+        const keys = new Set([...Object.keys(defaults), ...Object.keys(tile.metadata)]) as Set<keyof TileMetadata>;
+        keys.forEach(key => {
+            if (tile.metadata[key] !== defaults[key]) (metadata as Record<string, unknown>)[key] = tile.metadata[key];
+        });
+        if (Object.keys(metadata).length > 0) tiles.push({ position: { ...tile.coordinate }, metadata });
+    })));
+
+    return {
+        version: MAP_FILE_VERSION,
+        ...(name ? { name } : {}),
+        floors: floor.map(level => level.map(row => row.map(tile => charOf[tile.type]).join(''))),
+        ...(tiles.length > 0 ? { tiles } : {}),
+        units: units.map(unit => ({
+            id: unit.id,
+            type: unit.type,
+            faction: unit.faction,
+            name: unit.name,
+            position: { ...unit.position },
+            facing: unit.facing,
+            status: { ...unit.status },
+            ...(unit.archetype ? { archetype: unit.archetype } : {}),
+            ...(unit.memory ? { memory: { ...unit.memory } } : {}),
+            ...(unit.inventory ? { inventory: structuredClone(unit.inventory) } : {}),
+        })),
+    };
+};
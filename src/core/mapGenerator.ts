@@ -1,167 +1,396 @@
-import type { FloorData, Tile, TileType, TileMetadata, Unit } from './types';
+import type { Container, Coordinate, FloorData, Tile, TileType, Unit, UnitStatus, UnitType } from './types';
+import { PRNG } from './rng';
+import { createTile } from './tiles';
+import { createStartingInventory } from './items';
+import { placeContainers } from './loot';
+import { tileKey } from './fov';
+import { getClimbTarget } from './pathfinding';
+import { ENEMY_ARCHETYPES, createEnemy, getSpawnDepth, pickArchetype } from './enemies';
+import { SQUAD_SIZE } from './squad';
 
-// Simple pseudo-random number generator based on seed
-class PRNG {
-    private seed: number;
+/**
+ * Village Map Generator
+ * ---------------------
+ * Builds a small village from a seed:
+ * 1. Streets: the map is split recursively into blocks separated by streets.
+ * 2. Buildings: every block large enough gets a walled building inside a yard.
+ *    The interior is split into rooms joined by doors; one door opens onto the yard.
+ *    Some of those front doors are locked (the house key opens them).
+ * 3. Upper floors: some buildings get a second storey on the same footprint, reached
+ *    by stairs inside the building. Everywhere else the upper floor is EMPTY.
+ * 4. Validation: a flood fill from the start (through the stairs) must reach the
+ *    upper floor, otherwise the layout is redrawn. Unreachable pockets are walled
+ *    up and enemies only spawn on reachable tiles.
+ * Every random choice comes from PRNG(seed), so a seed always gives the same village.
+ */
 
-    constructor(seed: number) {
-        this.seed = seed;
+const MAP_WIDTH = 30;
+const MAP_HEIGHT = 30;
+const FLOORS = 2; // Ground floor + one storey
+
+const STREET_WIDTH = 2;
+const MAX_BLOCK = 11; // Larger blocks are split by a street...
+const MIN_BLOCK = 7; // ...into blocks at least this large
+const MIN_BUILDING = 5; // Footprint including its walls
+const MIN_ROOM = 2; // Smallest room interior
+const UPPER_FLOOR_CHANCE = 0.6;
+const STREET_MUD_CHANCE = 0.05;
+const YARD_MUD_CHANCE = 0.3; // Unpaved yards
+const ENEMY_MIN_DISTANCE = 7; // Manhattan distance from the start
+const LOCKED_DOOR_CHANCE = 0.3;
+const HOUSE_LOCK = 'house'; // Opened by the house key (items.ts)
+const MAX_ATTEMPTS = 10;
+
+// Starting stats of each unit type (also used for units placed by map files)
+export const DEFAULT_UNIT_STATUS: Record<UnitType, UnitStatus> = {
+    PLAYER: {
+        hp: 100,
+        maxHp: 100,
+        ap: 10,
+        maxAp: 10,
+        apRecovery: 5,
+        sightRange: 10,
+        isInjured: false,
+        noiseLevel: 3,
+        armor: 0
+    },
+    ENEMY: ENEMY_ARCHETYPES.BITER.status, // Plain enemies are Biters
+};
+
+export const DEFAULT_UNIT_NAMES: Record<UnitType, string> = {
+    PLAYER: 'Survivor',
+    ENEMY: 'Biter',
+};
+
+type Rect = { x: number; y: number; w: number; h: number }; // w rows (x), h columns (y)
+
+const DIRECTIONS = [
+    { dx: 1, dy: 0 },
+    { dx: 1, dy: 1 },
+    { dx: 0, dy: 1 },
+    { dx: -1, dy: 1 },
+    { dx: -1, dy: 0 },
+    { dx: -1, dy: -1 },
+    { dx: 0, dy: -1 },
+    { dx: 1, dy: -1 },
+];
+
+const setTile = (floor: FloorData, type: TileType, x: number, y: number, z: number) => {
+    floor[z][x][y] = createTile(type, { x, y, floor: z });
+};
+
+const typeAt = (floor: FloorData, x: number, y: number, z: number): TileType | undefined =>
+    floor[z]?.[x]?.[y]?.type;
+
+// Every walkable tile reachable from `start`, moving like units do (8 directions + stairs)
+export const findReachableTiles = (floor: FloorData, start: Coordinate): Set<string> => {
+    const reached = new Set<string>();
+    if (!floor[start.floor]?.[start.x]?.[start.y]?.metadata.walkable) return reached;
+
+    const queue: Coordinate[] = [start];
+    reached.add(tileKey(start.x, start.y, start.floor));
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        const next: Coordinate[] = DIRECTIONS.map(d => ({ x: current.x + d.dx, y: current.y + d.dy, floor: current.floor }));
+        const climb = getClimbTarget(floor, current);
+        if (climb) next.push(climb);
+
+        for (const c of next) {
+            const key = tileKey(c.x, c.y, c.floor);
+            if (reached.has(key) || !floor[c.floor]?.[c.x]?.[c.y]?.metadata.walkable) continue;
+            reached.add(key);
+            queue.push(c);
+        }
+    }
+    return reached;
+};
+
+// Recursively cut the map into blocks; the cuts become streets
+const splitBlocks = (prng: PRNG, rect: Rect): Rect[] => {
+    const canSplitX = rect.w >= MIN_BLOCK * 2 + STREET_WIDTH;
+    const canSplitY = rect.h >= MIN_BLOCK * 2 + STREET_WIDTH;
+    if ((rect.w <= MAX_BLOCK && rect.h <= MAX_BLOCK) || (!canSplitX && !canSplitY)) return [rect];
+
+    const alongX = canSplitX && (!canSplitY || rect.w > rect.h || (rect.w === rect.h && prng.next() < 0.5));
+    if (alongX) {
+        const s = prng.range(rect.x + MIN_BLOCK, rect.x + rect.w - MIN_BLOCK - STREET_WIDTH);
+        return [
+            ...splitBlocks(prng, { x: rect.x, y: rect.y, w: s - rect.x, h: rect.h }),
+            ...splitBlocks(prng, { x: s + STREET_WIDTH, y: rect.y, w: rect.x + rect.w - s - STREET_WIDTH, h: rect.h }),
+        ];
+    }
+    const s = prng.range(rect.y + MIN_BLOCK, rect.y + rect.h - MIN_BLOCK - STREET_WIDTH);
+    return [
+        ...splitBlocks(prng, { x: rect.x, y: rect.y, w: rect.w, h: s - rect.y }),
+        ...splitBlocks(prng, { x: rect.x, y: s + STREET_WIDTH, w: rect.w, h: rect.y + rect.h - s - STREET_WIDTH }),
+    ];
+};
+
+// Split a room interior with inner walls, each pierced by a door
+const splitRooms = (prng: PRNG, floor: FloorData, z: number, room: Rect) => {
+    const canSplitX = room.w >= MIN_ROOM * 2 + 1;
+    const canSplitY = room.h >= MIN_ROOM * 2 + 1;
+    if (!canSplitX && !canSplitY) return;
+
+    const alongX = canSplitX && (!canSplitY || room.w > room.h || (room.w === room.h && prng.next() < 0.5));
+
+    // A wall must not end right in front of the door of an enclosing wall
+    const candidates: number[] = [];
+    if (alongX) {
+        for (let s = room.x + MIN_ROOM; s <= room.x + room.w - 1 - MIN_ROOM; s++) {
+            if (typeAt(floor, s, room.y - 1, z) !== 'DOOR' && typeAt(floor, s, room.y + room.h, z) !== 'DOOR') candidates.push(s);
+        }
+    } else {
+        for (let s = room.y + MIN_ROOM; s <= room.y + room.h - 1 - MIN_ROOM; s++) {
+            if (typeAt(floor, room.x - 1, s, z) !== 'DOOR' && typeAt(floor, room.x + room.w, s, z) !== 'DOOR') candidates.push(s);
+        }
     }
+    if (candidates.length === 0) return;
+    const s = candidates[prng.range(0, candidates.length - 1)];
 
-    // Linear Congruential Generator
-    next(): number {
-        this.seed = (this.seed * 1664525 + 1013904223) % 4294967296;
-        return this.seed / 4294967296;
+    if (alongX) {
+        for (let y = room.y; y < room.y + room.h; y++) setTile(floor, 'WALL', s, y, z);
+        setTile(floor, 'DOOR', s, prng.range(room.y, room.y + room.h - 1), z);
+        splitRooms(prng, floor, z, { x: room.x, y: room.y, w: s - room.x, h: room.h });
+        splitRooms(prng, floor, z, { x: s + 1, y: room.y, w: room.x + room.w - s - 1, h: room.h });
+    } else {
+        for (let x = room.x; x < room.x + room.w; x++) setTile(floor, 'WALL', x, s, z);
+        setTile(floor, 'DOOR', prng.range(room.x, room.x + room.w - 1), s, z);
+        splitRooms(prng, floor, z, { x: room.x, y: room.y, w: room.w, h: s - room.y });
+        splitRooms(prng, floor, z, { x: room.x, y: s + 1, w: room.w, h: room.y + room.h - s - 1 });
     }
+};
 
-    range(min: number, max: number): number {
-        return Math.floor(this.next() * (max - min + 1)) + min;
+// Outer walls, FLOOR inside, then rooms
+const buildStorey = (prng: PRNG, floor: FloorData, z: number, footprint: Rect) => {
+    for (let x = footprint.x; x < footprint.x + footprint.w; x++) {
+        for (let y = footprint.y; y < footprint.y + footprint.h; y++) {
+            const isEdge = x === footprint.x || y === footprint.y ||
+                x === footprint.x + footprint.w - 1 || y === footprint.y + footprint.h - 1;
+            setTile(floor, isEdge ? 'WALL' : 'FLOOR', x, y, z);
+        }
     }
-}
+    splitRooms(prng, floor, z, { x: footprint.x + 1, y: footprint.y + 1, w: footprint.w - 2, h: footprint.h - 2 });
+};
 
-const MAP_WIDTH = 20;
-const MAP_HEIGHT = 20;
-const FLOORS = 2; // Enabled 2 Floors
+// Front door: a non-corner outer wall tile between a room and the yard
+const placeEntrance = (prng: PRNG, floor: FloorData, footprint: Rect): Coordinate | null => {
+    const candidates: Coordinate[] = [];
+    const { x: fx, y: fy, w, h } = footprint;
 
-export const generateMap = (seed: number): { floor: FloorData; units: Record<string, Unit> } => {
-    const prng = new PRNG(seed);
-    const floors: FloorData = [];
+    for (let x = fx + 1; x < fx + w - 1; x++) {
+        candidates.push({ x, y: fy, floor: 0 }, { x, y: fy + h - 1, floor: 0 });
+    }
+    for (let y = fy + 1; y < fy + h - 1; y++) {
+        candidates.push({ x: fx, y, floor: 0 }, { x: fx + w - 1, y, floor: 0 });
+    }
 
+    const valid = candidates.filter(c => {
+        const inward = { x: c.x === fx ? 1 : c.x === fx + w - 1 ? -1 : 0, y: c.y === fy ? 1 : c.y === fy + h - 1 ? -1 : 0 };
+        return typeAt(floor, c.x + inward.x, c.y + inward.y, 0) === 'FLOOR' &&
+            floor[0][c.x - inward.x]?.[c.y - inward.y]?.metadata.walkable;
+    });
+    if (valid.length === 0) return null;
+
+    const door = valid[prng.range(0, valid.length - 1)];
+    setTile(floor, 'DOOR', door.x, door.y, 0);
+    return door;
+};
+
+// Stairs on a tile that is a plain FLOOR on both storeys
+const placeStairs = (prng: PRNG, floor: FloorData, footprint: Rect): boolean => {
+    const candidates: Coordinate[] = [];
+    for (let x = footprint.x + 1; x < footprint.x + footprint.w - 1; x++) {
+        for (let y = footprint.y + 1; y < footprint.y + footprint.h - 1; y++) {
+            if (typeAt(floor, x, y, 0) === 'FLOOR' && typeAt(floor, x, y, 1) === 'FLOOR') candidates.push({ x, y, floor: 0 });
+        }
+    }
+    if (candidates.length === 0) return false;
+
+    const stairs = candidates[prng.range(0, candidates.length - 1)];
+    setTile(floor, 'STAIRS_UP', stairs.x, stairs.y, 0);
+    setTile(floor, 'STAIRS_DOWN', stairs.x, stairs.y, 1);
+    return true;
+};
+
+const clearStorey = (floor: FloorData, z: number, footprint: Rect) => {
+    for (let x = footprint.x; x < footprint.x + footprint.w; x++) {
+        for (let y = footprint.y; y < footprint.y + footprint.h; y++) setTile(floor, 'EMPTY', x, y, z);
+    }
+};
+
+// One layout attempt; null if it fails validation
+type Layout = {
+    floor: FloorData;
+    start: Coordinate;
+    reachable: Set<string>;
+    frontDoors: Coordinate[]; // Of every building but the largest (the one sure to have an upper floor)
+};
+
+const generateLayout = (prng: PRNG): Layout | null => {
+    const floor: FloorData = [];
     for (let z = 0; z < FLOORS; z++) {
-        const floorLayer: Tile[][] = [];
+        const level: Tile[][] = [];
         for (let x = 0; x < MAP_WIDTH; x++) {
             const row: Tile[] = [];
             for (let y = 0; y < MAP_HEIGHT; y++) {
-                // Basic terrain generation logic
-                const isWall = prng.next() > 0.8; // 20% Obstacles
-                const type: TileType = isWall ? 'WALL' : 'CONCRETE';
-
-                // Metadata generation
-                const metadata: TileMetadata = {
-                    noiseCoefficient: type === 'CONCRETE' ? 1.0 : 0.0,
-                    spawnWeight: 1.0,
-                    isInteractable: false,
-                    opacity: isWall ? 1.0 : 0.0,
-                    walkable: !isWall,
-                };
-
-                row.push({
-                    coordinate: { x, y, floor: z },
-                    type,
-                    metadata,
-                });
+                row.push(createTile(z === 0 ? 'CONCRETE' : 'EMPTY', { x, y, floor: z }));
             }
-            floorLayer.push(row);
+            level.push(row);
         }
-        floors.push(floorLayer);
+        floor.push(level);
     }
 
-    // Post-processing: Ensure 5x5 start area is clear on 1st Floor
+    // --- STREETS & BLOCKS ---
+    const blocks = splitBlocks(prng, { x: 0, y: 0, w: MAP_WIDTH, h: MAP_HEIGHT });
+    const inBlock = new Set<string>();
+    blocks.forEach(b => {
+        for (let x = b.x; x < b.x + b.w; x++) {
+            for (let y = b.y; y < b.y + b.h; y++) inBlock.add(`${x},${y}`);
+        }
+    });
+
+    // --- BUILDINGS ---
+    const footprints: Rect[] = [];
+    const entrances = new Map<Rect, Coordinate>();
+    blocks.forEach(block => {
+        // Keep a one-tile yard around the building
+        if (block.w - 2 < MIN_BUILDING || block.h - 2 < MIN_BUILDING) return;
+        const w = prng.range(Math.max(MIN_BUILDING, block.w - 4), block.w - 2);
+        const h = prng.range(Math.max(MIN_BUILDING, block.h - 4), block.h - 2);
+        const footprint = {
+            x: prng.range(block.x + 1, block.x + block.w - 1 - w),
+            y: prng.range(block.y + 1, block.y + block.h - 1 - h),
+            w,
+            h,
+        };
+        buildStorey(prng, floor, 0, footprint);
+        const door = placeEntrance(prng, floor, footprint);
+        if (door) entrances.set(footprint, door);
+        footprints.push(footprint);
+    });
+    if (footprints.length === 0) return null;
+
+    // --- UPPER FLOORS (same footprint, stairs inside) ---
+    const largest = footprints.reduce((a, b) => (b.w * b.h > a.w * a.h ? b : a));
+    let storeys = 0;
+    footprints.forEach(footprint => {
+        if (footprint !== largest && prng.next() >= UPPER_FLOOR_CHANCE) return;
+        buildStorey(prng, floor, 1, footprint);
+        if (placeStairs(prng, floor, footprint)) {
+            storeys++;
+        } else {
+            clearStorey(floor, 1, footprint);
+        }
+    });
+    if (storeys === 0) return null;
+
+    // --- GROUND COVER: puddles on the streets, muddy yards ---
+    floor[0].forEach((row, x) => row.forEach((tile, y) => {
+        const chance = inBlock.has(`${x},${y}`) ? YARD_MUD_CHANCE : STREET_MUD_CHANCE;
+        if (tile.type === 'CONCRETE' && prng.next() < chance) setTile(floor, 'MUD', x, y, 0);
+    }));
+
+    // --- START: the street tile closest to the centre ---
     const centerX = Math.floor(MAP_WIDTH / 2);
     const centerY = Math.floor(MAP_HEIGHT / 2);
-
-    // Clear start area (Floor 0)
-    for (let x = centerX - 2; x <= centerX + 2; x++) {
-        for (let y = centerY - 2; y <= centerY + 2; y++) {
-            if (x >= 0 && x < MAP_WIDTH && y >= 0 && y < MAP_HEIGHT) {
-                const tile = floors[0][x][y];
-                if (tile) {
-                    tile.type = 'CONCRETE';
-                    tile.metadata.walkable = true;
-                    tile.metadata.opacity = 0;
-                }
+    let start: Coordinate | null = null;
+    let bestDist = Infinity;
+    for (let x = 0; x < MAP_WIDTH; x++) {
+        for (let y = 0; y < MAP_HEIGHT; y++) {
+            if (inBlock.has(`${x},${y}`)) continue;
+            const dist = Math.abs(x - centerX) + Math.abs(y - centerY);
+            if (dist < bestDist) {
+                bestDist = dist;
+                start = { x, y, floor: 0 };
             }
         }
     }
+    if (!start) return null;
+    setTile(floor, 'CONCRETE', start.x, start.y, 0);
+
+    // --- CONNECTIVITY ---
+    const reachable = findReachableTiles(floor, start);
+    const upstairsReachable = [...reachable].some(key => key.endsWith(',1'));
+    if (!upstairsReachable) return null;
+
+    // Wall up anything the survivor could never walk to
+    floor.forEach((level, z) => level.forEach((row, x) => row.forEach((tile, y) => {
+        if (tile.metadata.walkable && !reachable.has(tileKey(x, y, z))) setTile(floor, 'WALL', x, y, z);
+    })));
+
+    const frontDoors = footprints.flatMap(f => {
+        const door = entrances.get(f);
+        return f !== largest && door && typeAt(floor, door.x, door.y, 0) === 'DOOR' ? [door] : [];
+    });
+    return { floor, start, reachable, frontDoors };
+};
 
-    // --- STAIRS GENERATION ---
-    // Place stairs roughly away from center
-    let sx = centerX, sy = centerY;
-    while (Math.abs(sx - centerX) < 5 && Math.abs(sy - centerY) < 5) {
-        sx = prng.range(1, MAP_WIDTH - 2);
-        sy = prng.range(1, MAP_HEIGHT - 2);
+export const generateMap = (seed: number): { floor: FloorData; units: Record<string, Unit>; containers: Container[] } => {
+    const prng = new PRNG(seed);
+
+    let layout = generateLayout(prng);
+    for (let attempt = 1; !layout && attempt < MAX_ATTEMPTS; attempt++) {
+        layout = generateLayout(prng);
     }
+    if (!layout) {
+        throw new Error(`Could not generate a connected village for seed ${seed}`);
+    }
+    const { floor: floors, start, reachable, frontDoors } = layout;
 
-    // Floor 0: Up
-    floors[0][sx][sy].type = 'STAIRS_UP';
-    floors[0][sx][sy].metadata.walkable = true;
-    floors[0][sx][sy].metadata.opacity = 0;
-
-    // Floor 1: Down
-    floors[1][sx][sy].type = 'STAIRS_DOWN';
-    floors[1][sx][sy].metadata.walkable = true;
-    floors[1][sx][sy].metadata.opacity = 0;
-
-
-    // Spawn Player
-    const player: Unit = {
-        id: 'player-1',
-        type: 'PLAYER',
-        faction: 'PLAYER',
-        name: 'Survivor',
-        position: { x: centerX, y: centerY, floor: 0 },
-        status: {
-            hp: 100,
-            maxHp: 100,
-            ap: 10,
-            maxAp: 10,
-            apRecovery: 5,
-            sightRange: 10,
-            isInjured: false,
-            noiseLevel: 3
-        },
-        facing: 'DOWN'
-    };
+    // Spawn the Squad: the leader on the start tile, the others on the closest free ground around it
+    const squadTiles = [start, ...[...reachable]
+        .map(key => key.split(',').map(Number))
+        .filter(([x, y, z]) => z === start.floor && (x !== start.x || y !== start.y))
+        .sort((a, b) =>
+            Math.max(Math.abs(a[0] - start.x), Math.abs(a[1] - start.y)) - Math.max(Math.abs(b[0] - start.x), Math.abs(b[1] - start.y))
+        )
+        .slice(0, SQUAD_SIZE - 1)
+        .map(([x, y, z]) => ({ x, y, floor: z }))];
 
     const units: Record<string, Unit> = {};
-    units[player.id] = player;
+    squadTiles.forEach((position, i) => {
+        const survivor: Unit = {
+            id: `player-${i + 1}`,
+            type: 'PLAYER',
+            faction: 'PLAYER',
+            name: `${DEFAULT_UNIT_NAMES.PLAYER} ${i + 1}`,
+            position: { ...position },
+            status: { ...DEFAULT_UNIT_STATUS.PLAYER },
+            facing: 'DOWN',
+            inventory: createStartingInventory('PLAYER')
+        };
+        units[survivor.id] = survivor;
+    });
+
+    // Spawn Enemies on reachable tiles of every floor, away from the start
+    // (tougher archetypes only further out or upstairs)
+    const spawnTiles = [...reachable]
+        .map(key => key.split(',').map(Number))
+        .filter(([x, y]) => Math.abs(x - start.x) + Math.abs(y - start.y) >= ENEMY_MIN_DISTANCE);
 
-    // Spawn Enemies (Simple random placement far from player)
     const enemyCount = 3 + Math.floor(prng.next() * 3); // 3 to 5 enemies
-    let enemiesSpawned = 0;
-
-    // Safety break
-    let attempts = 0;
-    while (enemiesSpawned < enemyCount && attempts < 100) {
-        attempts++;
-        const x = Math.floor(prng.next() * MAP_WIDTH);
-        const y = Math.floor(prng.next() * MAP_HEIGHT);
-
-        // Calculate distance from player
-        const dist = Math.abs(x - centerX) + Math.abs(y - centerY);
-
-        // Check tile valid
-        const tile = floors[0][x][y];
-
-        // Check occupancy
-        const isOccupied = Object.values(units).some(u => u.position.x === x && u.position.y === y && u.position.floor === 0);
-
-        // Spawn only on walkable tiles and far enough (e.g. > 6 tiles)
-        if (tile && tile.metadata.walkable && dist > 6 && !isOccupied) {
-            const enemyId = `biter-${enemiesSpawned}`;
-            units[enemyId] = {
-                id: enemyId,
-                type: 'ENEMY',
-                faction: 'ENEMY',
-                name: 'Biter',
-                position: { x, y, floor: 0 },
-                status: {
-                    hp: 3, // Low HP (Fragile)
-                    maxHp: 3,
-                    ap: 8, // Less AP than player
-                    maxAp: 8,
-                    apRecovery: 4,
-                    sightRange: 7, // 7 tiles detection
-                    isInjured: false
-                },
-                facing: 'DOWN'
-            };
-            enemiesSpawned++;
-        }
+    for (let i = 0; i < enemyCount && spawnTiles.length > 0; i++) {
+        const [x, y, z] = spawnTiles.splice(prng.range(0, spawnTiles.length - 1), 1)[0];
+        const position = { x, y, floor: z };
+        const archetype = pickArchetype(prng, getSpawnDepth(start, position));
+        const enemy = createEnemy(`${archetype.toLowerCase()}-${i}`, archetype, position);
+        units[enemy.id] = enemy;
     }
 
+    // Stashes to search (rolled from their own stream: the village above stays the same)
+    const containers = placeContainers(floors, reachable, start, seed);
+
+    // Locked front doors (their own stream as well)
+    const locks = new PRNG((seed ^ 0x10c4ed00) >>> 0);
+    frontDoors.forEach(door => {
+        if (locks.next() < LOCKED_DOOR_CHANCE) floors[0][door.x][door.y].metadata.lockId = HOUSE_LOCK;
+    });
+
     return {
         floor: floors,
-        units
+        units,
+        containers
     };
 };
@@ -0,0 +1,116 @@
+import type { ActionRequest, MapFile, MovementModes, ReplayTurn } from './types';
+
+/**
+ * Network Protocol
+ * ----------------
+ * Messages between the browser clients and the relay (scripts/relay.ts).
+ * The relay knows nothing about the game: the first client in a room is its host,
+ * game messages from the host go to everyone else, and game messages from the
+ * others go to the host only.
+ *
+ * Lockstep WEGO turn:
+ * 1. Everyone plans during DECISION. When a player's timer runs out they SUBMIT
+ *    the orders of their survivors (and whether each one sneaks).
+ * 2. The host waits for every connected player (at most SUBMIT_GRACE_MS past its own
+ *    timer); whoever is missing plays an empty queue.
+ * 3. The host runs the turn and broadcasts its queue (player input + AI) as a TURN.
+ *    Every client runs the same input from the same seed, exactly like a replay.
+ * 4. A TURN carries a hash of the host's state from the start of that decision phase.
+ *    A client whose own hash differs asks for a RESYNC instead of running the turn; the
+ *    host answers with its STATE from that point (a save file, see save.ts), which the
+ *    client loads before carrying on.
+ *
+ * readClientMessage checks the shape of what a client sent before the relay passes it on.
+ */
+
+export const DEFAULT_RELAY_PORT = 8787;
+export const SUBMIT_GRACE_MS = 3000;
+
+export type GameMessage =
+    | { type: 'START'; seed: number; map: MapFile | null; assignments: Record<string, string[]> } // Client id -> survivor ids
+    | { type: 'SUBMIT'; turn: number; actions: ActionRequest[]; modes: MovementModes }
+    | { type: 'TURN'; turn: ReplayTurn; hash: string }
+    | { type: 'RESYNC' }
+    | { type: 'STATE'; clientId: string; state: string }; // For the client that asked; serializeGameState output
+
+// Client -> relay
+export type ClientMessage =
+    | { type: 'JOIN'; room: string }
+    | { type: 'GAME'; message: GameMessage };
+
+// Relay -> client
+export type ServerMessage =
+    | { type: 'WELCOME'; clientId: string; hostId: string; peers: string[] }
+    | { type: 'PEER_JOINED'; clientId: string }
+    | { type: 'PEER_LEFT'; clientId: string }
+    | { type: 'ERROR'; reason: string }
+    | { type: 'GAME'; from: string; message: GameMessage };
+
+// --- Shape checks (the relay forwards nothing it cannot read) ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isModes = (value: unknown) =>
+    isObject(value) && Object.values(value).every(mode => mode === 'RUN' || mode === 'SNEAK');
+
+const isActionList = (value: unknown) =>
+    Array.isArray(value) && value.every(a => isObject(a) && typeof a.type === 'string' && typeof a.unitId === 'string' && typeof a.cost === 'number');
+
+const readGameMessage = (data: unknown): GameMessage => {
+    if (!isObject(data)) throw new Error('Game message must be an object');
+
+    switch (data.type) {
+        case 'START':
+            if (typeof data.seed !== 'number') throw new Error('START needs a numeric seed');
+            if (data.map !== null && !isObject(data.map)) throw new Error('START map must be a map file or null');
+            if (!isObject(data.assignments) || !Object.values(data.assignments).every(isStringList)) {
+                throw new Error('START assignments must map client ids to survivor ids');
+            }
+            break;
+        case 'SUBMIT':
+            if (typeof data.turn !== 'number') throw new Error('SUBMIT needs a turn number');
+            if (!isActionList(data.actions)) throw new Error('SUBMIT actions are malformed');
+            if (!isModes(data.modes)) throw new Error('SUBMIT modes must be RUN or SNEAK');
+            break;
+        case 'TURN': {
+            const turn = data.turn;
+            if (!isObject(turn) || typeof turn.turn !== 'number' || !isActionList(turn.actions) || !isModes(turn.modes)) {
+                throw new Error('TURN must carry a recorded turn');
+            }
+            if (typeof data.hash !== 'string') throw new Error('TURN needs a state hash');
+            break;
+        }
+        case 'RESYNC':
+            break;
+        case 'STATE':
+            if (typeof data.clientId !== 'string' || typeof data.state !== 'string') {
+                throw new Error('STATE needs a client id and a serialized state');
+            }
+            break;
+        default:
+            throw new Error(`Unknown game message ${String(data.type)}`);
+    }
+    return data as GameMessage;
+};
+
+// Parsed JSON from a client; throws with the reason it cannot be relayed
+export const readClientMessage = (data: unknown): ClientMessage => {
+    if (!isObject(data)) throw new Error('Message must be an object');
+
+    switch (data.type) {
+        case 'JOIN':
+            if (typeof data.room !== 'string' || data.room === '') throw new Error('JOIN needs a room name');
+            return { type: 'JOIN', room: data.room };
+        case 'GAME':
+            return { type: 'GAME', message: readGameMessage(data.message) };
+        default:
+            throw new Error(`Unknown message ${String(data.type)}`);
+    }
+};
+
+// Only the host runs the game; everyone else hands in orders and asks for its state
+export const isHostMessage = (message: GameMessage) =>
+    message.type === 'START' || message.type === 'TURN' || message.type === 'STATE';
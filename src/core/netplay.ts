@@ -0,0 +1,321 @@
+import { useGameStore } from './store';
+import { getRecordedPlayerActions } from './replay';
+import { getSquad } from './squad';
+import { deserializeGameState, serializeGameState } from './save';
+import { DEFAULT_RELAY_PORT, SUBMIT_GRACE_MS } from './netProtocol';
+import type { ClientMessage, GameMessage, ServerMessage } from './netProtocol';
+import type { ActionRequest, GameState, MovementModes, NetworkSession, ReplayTurn } from './types';
+
+/**
+ * Netplay Module
+ * --------------
+ * Browser side of the lockstep online game (protocol in netProtocol.ts).
+ * - joinRoom connects to the relay; the first player in the room hosts it.
+ * - startOnlineGame (host) starts a fresh game and deals the survivors out to the players.
+ * - Watches the store: when the decision timer runs out, a client submits its orders;
+ *   the host waits for everyone (or SUBMIT_GRACE_MS) and runs the turn.
+ * - Turns from the host are run like replayed turns (the store's runTurn).
+ * - Everyone hashes their state when a decision phase begins; a client whose hash differs
+ *   from the host's loads the host's state before running the turn.
+ */
+
+export const DEFAULT_RELAY_URL = `ws://localhost:${DEFAULT_RELAY_PORT}`;
+
+let socket: WebSocket | null = null;
+let unsubscribe: (() => void) | null = null;
+let assignments: Record<string, string[]> = {}; // Client id -> survivor ids (host)
+let submissions = new Map<string, { actions: ActionRequest[]; modes: MovementModes }>(); // This turn's orders by client (host)
+let graceTimer: ReturnType<typeof setTimeout> | null = null;
+let checkpoint: { turn: number; state: GameState; hash: string } | null = null; // Start of this decision phase
+let awaitingState = false; // Desynced: waiting for the host's state (client)
+const pendingTurns: { turn: ReplayTurn; hash: string }[] = []; // Turns that arrived during playback (client)
+
+const getSession = () => useGameStore.getState().network;
+
+const updateSession = (update: Partial<NetworkSession>) => {
+    const session = getSession();
+    if (session) useGameStore.getState().setNetworkSession({ ...session, ...update });
+};
+
+const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const sendGame = (message: GameMessage) => send({ type: 'GAME', message });
+
+// What this player planned for their own survivors (planning ids are replaced when the turn runs)
+const collectOrders = (state: GameState): { actions: ActionRequest[]; modes: MovementModes } => {
+    const controlled = state.network?.controlledUnitIds ?? [];
+    return {
+        actions: state.actionQueue.filter(a => controlled.includes(a.unitId)),
+        modes: Object.fromEntries(controlled
+            .filter(id => state.units[id])
+            .map(id => [id, state.units[id].status.movementMode ?? 'RUN']))
+    };
+};
+
+// Only what the simulation reads (timers, visibility and the UI fields may differ)
+const hashState = (state: GameState): string => {
+    const json = JSON.stringify([state.turn, state.rngState, state.units, state.containers, state.groundItems]);
+    let hash = 0x811c9dc5; // FNV-1a
+    for (let i = 0; i < json.length; i++) {
+        hash = Math.imul(hash ^ json.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+// Movement modes are part of the input: sneaking changes what the enemies hear
+const applyModes = (modes: MovementModes) => {
+    Object.entries(modes).forEach(([unitId, mode]) => {
+        const unit = useGameStore.getState().units[unitId];
+        if (unit && (unit.status.movementMode ?? 'RUN') !== mode) useGameStore.getState().toggleSneak(unitId);
+    });
+};
+
+// --- Host ---
+
+const clearGrace = () => {
+    if (graceTimer) clearTimeout(graceTimer);
+    graceTimer = null;
+};
+
+// Everyone's orders are in (or the wait is over): run the turn and send it out
+const resolveHostTurn = () => {
+    clearGrace();
+    const state = useGameStore.getState();
+    const session = state.network;
+    if (session?.role !== 'HOST' || !session.clientId || !session.submitted || state.phase !== 'DECISION') return;
+
+    // Nobody gives orders to someone else's survivor
+    const orders = [[session.clientId, collectOrders(state)] as const, ...submissions];
+    const byUnit = new Map<string, ActionRequest[]>();
+    const modes: MovementModes = {};
+    orders.forEach(([clientId, submitted]) => {
+        const owned = assignments[clientId] ?? [];
+        submitted.actions.filter(a => owned.includes(a.unitId)).forEach(a => byUnit.set(a.unitId, [...(byUnit.get(a.unitId) ?? []), a]));
+        Object.entries(submitted.modes).forEach(([unitId, mode]) => {
+            if (owned.includes(unitId)) modes[unitId] = mode;
+        });
+    });
+    submissions = new Map();
+
+    applyModes(modes);
+    useGameStore.getState().runTurn(getSquad(state.units).flatMap(u => byUnit.get(u.id) ?? []));
+    updateSession({ submitted: false });
+
+    const turn = useGameStore.getState().turnLog.at(-1);
+    if (turn && checkpoint) sendGame({ type: 'TURN', turn, hash: checkpoint.hash });
+};
+
+const tryResolve = () => {
+    const session = getSession();
+    if (session?.role !== 'HOST' || session.status !== 'PLAYING' || !session.submitted) return;
+    const waitingFor = Object.keys(assignments).filter(id =>
+        id !== session.clientId && session.peers.includes(id) && !submissions.has(id)
+    );
+    if (waitingFor.length === 0) resolveHostTurn();
+};
+
+export const startOnlineGame = () => {
+    const state = useGameStore.getState();
+    const session = state.network;
+    if (session?.role !== 'HOST' || !session.clientId) return;
+
+    const seed = Date.now();
+    const map = state.mapFile;
+    state.initGame(seed, map ?? undefined); // Resets the session along with the rest of the state
+
+    // Survivors are dealt out in turn; the host takes the leftovers
+    const players = [session.clientId, ...session.peers];
+    assignments = Object.fromEntries(players.map(id => [id, [] as string[]]));
+    getSquad(useGameStore.getState().units).forEach((unit, i) => assignments[players[i % players.length]].push(unit.id));
+    submissions = new Map();
+    checkpoint = null;
+
+    const controlledUnitIds = assignments[session.clientId];
+    useGameStore.getState().setNetworkSession({ ...session, status: 'PLAYING', controlledUnitIds, submitted: false, desyncs: 0 });
+    useGameStore.setState({ selectedUnitId: controlledUnitIds[0] ?? null });
+    sendGame({ type: 'START', seed, map, assignments });
+};
+
+// --- Client ---
+
+const playHostTurn = (turn: ReplayTurn, hash: string) => {
+    // Both hashes were taken when this turn's decision phase began
+    if (checkpoint?.turn !== turn.turn || checkpoint.hash !== hash) {
+        console.log(`Online desync at turn ${turn.turn}: loading the host's state`);
+        pendingTurns.unshift({ turn, hash });
+        awaitingState = true;
+        const session = getSession();
+        if (session) updateSession({ desyncs: session.desyncs + 1 });
+        sendGame({ type: 'RESYNC' });
+        return;
+    }
+
+    applyModes(turn.modes);
+    const state = useGameStore.getState();
+    state.runTurn(getRecordedPlayerActions(turn, state.units));
+    updateSession({ submitted: false });
+};
+
+// The host's state replaces ours; turns it already contains are skipped
+const loadHostState = (json: string) => {
+    const loaded = deserializeGameState(json);
+    const { network, selectedUnitId, debugFow, debugAi } = useGameStore.getState();
+    while (pendingTurns.length > 0 && pendingTurns[0].turn.turn < loaded.turn) pendingTurns.shift();
+    awaitingState = false;
+    checkpoint = null;
+    useGameStore.getState().loadGameState({
+        ...loaded, selectedUnitId, debugFow, debugAi, network: network && { ...network, submitted: false }
+    });
+};
+
+const startClientGame = (seed: number, map: GameState['mapFile'], dealt: Record<string, string[]>) => {
+    const session = getSession();
+    if (!session?.clientId) return;
+    useGameStore.getState().initGame(seed, map ?? undefined);
+
+    checkpoint = null;
+    awaitingState = false;
+    pendingTurns.length = 0;
+
+    const controlledUnitIds = dealt[session.clientId] ?? [];
+    useGameStore.getState().setNetworkSession({ ...session, status: 'PLAYING', controlledUnitIds, submitted: false, desyncs: 0 });
+    useGameStore.setState({ selectedUnitId: controlledUnitIds[0] ?? null });
+};
+
+// --- Messages ---
+
+const handleGameMessage = (from: string, message: GameMessage) => {
+    const session = getSession();
+    if (!session) return;
+
+    switch (message.type) {
+        case 'START':
+            startClientGame(message.seed, message.map, message.assignments);
+            break;
+        case 'SUBMIT':
+            // Late orders for a turn that already ran are dropped
+            if (session.role !== 'HOST' || message.turn !== useGameStore.getState().turn) return;
+            submissions.set(from, { actions: message.actions, modes: message.modes });
+            tryResolve();
+            break;
+        case 'TURN':
+            if (useGameStore.getState().phase === 'DECISION' && !awaitingState) {
+                playHostTurn(message.turn, message.hash);
+            } else {
+                pendingTurns.push({ turn: message.turn, hash: message.hash });
+            }
+            break;
+        case 'RESYNC':
+            if (session.role !== 'HOST' || !checkpoint) return;
+            console.log(`${from} desynced: sending the state of turn ${checkpoint.turn}`);
+            sendGame({ type: 'STATE', clientId: from, state: serializeGameState(checkpoint.state) });
+            break;
+        case 'STATE':
+            if (message.clientId !== session.clientId) return;
+            loadHostState(message.state);
+            break;
+    }
+};
+
+const handleServerMessage = (message: ServerMessage) => {
+    const session = getSession();
+    if (!session) return;
+
+    switch (message.type) {
+        case 'WELCOME':
+            updateSession({
+                clientId: message.clientId,
+                role: message.hostId === message.clientId ? 'HOST' : 'CLIENT',
+                status: 'LOBBY',
+                peers: message.peers
+            });
+            break;
+        case 'PEER_JOINED':
+            updateSession({ peers: [...session.peers, message.clientId] });
+            break;
+        case 'PEER_LEFT':
+            // A player who left plays empty turns from now on
+            updateSession({ peers: session.peers.filter(id => id !== message.clientId) });
+            submissions.delete(message.clientId);
+            tryResolve();
+            break;
+        case 'ERROR':
+            console.log(`Relay error: ${message.reason}`);
+            break;
+        case 'GAME':
+            handleGameMessage(message.from, message.message);
+            break;
+    }
+};
+
+// Decision timer ran out: hand the orders in (client) or start waiting for them (host)
+const onStateChange = (state: GameState) => {
+    const session = state.network;
+    if (session?.status !== 'PLAYING' || state.phase !== 'DECISION') return;
+    if (checkpoint?.turn !== state.turn) checkpoint = { turn: state.turn, state, hash: hashState(state) };
+
+    if (session.role === 'CLIENT' && awaitingState) return;
+    if (session.role === 'CLIENT' && pendingTurns.length > 0) {
+        const { turn, hash } = pendingTurns.shift()!;
+        playHostTurn(turn, hash);
+        return;
+    }
+    if (state.timer > 0 || session.submitted) return;
+
+    updateSession({ submitted: true });
+    if (session.role === 'CLIENT') {
+        sendGame({ type: 'SUBMIT', turn: state.turn, ...collectOrders(state) });
+    } else {
+        graceTimer = setTimeout(resolveHostTurn, SUBMIT_GRACE_MS);
+        tryResolve();
+    }
+};
+
+export const leaveRoom = () => {
+    unsubscribe?.();
+    unsubscribe = null;
+    clearGrace();
+    if (socket) {
+        socket.onclose = null;
+        socket.close();
+        socket = null;
+    }
+    assignments = {};
+    submissions = new Map();
+    checkpoint = null;
+    awaitingState = false;
+    pendingTurns.length = 0;
+    useGameStore.getState().setNetworkSession(null);
+};
+
+export const joinRoom = (url: string, room: string) => {
+    leaveRoom();
+    useGameStore.getState().setNetworkSession({
+        role: 'CLIENT', room, clientId: null, status: 'CONNECTING', peers: [], controlledUnitIds: [], submitted: false, desyncs: 0
+    });
+
+    try {
+        socket = new WebSocket(url);
+    } catch (err) {
+        console.log(`Cannot connect to ${url}: ${(err as Error).message}`);
+        updateSession({ status: 'CLOSED' });
+        return;
+    }
+    socket.onopen = () => send({ type: 'JOIN', room });
+    socket.onmessage = (e) => {
+        try {
+            handleServerMessage(JSON.parse(e.data));
+        } catch (err) {
+            console.log(`Bad relay message: ${(err as Error).message}`);
+        }
+    };
+    // The game stays on screen; leaving the room continues it offline
+    socket.onclose = () => {
+        console.log(`Disconnected from ${url}`);
+        clearGrace();
+        updateSession({ status: 'CLOSED' });
+    };
+    unsubscribe = useGameStore.subscribe(onStateChange);
+};
@@ -1,13 +1,20 @@
-import type { Coordinate, FloorData, Unit } from './types';
+import type { Coordinate, FloorData, Tile, Unit } from './types';
+import { MinHeap } from './heap';
 
-interface Node {
-    x: number;
-    y: number;
-    f: number;
-    g: number;
-    h: number;
-    parent: Node | null;
-}
+/**
+ * Pathfinding Module
+ * ------------------
+ * A* over the tile grid of every floor, with stairs as vertical edges.
+ * - Tiles are addressed by a flat index ((floor * width + x) * height + y);
+ *   scores, parents and the closed set live in typed arrays reused between searches.
+ * - The open list is a binary heap.
+ * - Units are indexed by tile once per search instead of scanned per neighbor.
+ * - Locked doors are walls unless the mover holds the key (options.keys).
+ * - maxExpansions caps the work of one search (hover previews, see PREVIEW_NODE_BUDGET):
+ *   a search that runs out heads for the tile closest to the goal it reached (or, when none
+ *   is closer than the start, e.g. on the way to the stairs, for the last tile it expanded).
+ * All floors of a map are assumed to share the same dimensions.
+ */
 
 const DIRECTIONS = [
     { dx: 1, dy: 0, cost: 1.0 },
@@ -20,100 +27,277 @@ const DIRECTIONS = [
     { dx: 1, dy: -1, cost: 1.5 },
 ];
 
-function getHeuristic(a: Coordinate, b: Coordinate): number {
-    const dx = Math.abs(a.x - b.x);
-    const dy = Math.abs(a.y - b.y);
+// Stairs are vertical edges of the search graph
+export const CLIMB_COST = 3;
+
+export const PASS_THROUGH_COST = 3; // A survivor may squeeze past an enemy
+
+// Tile expansions a hover preview may spend (a few ms, see scripts/bench-pathfinding.ts).
+// Village maps never need that many; only large custom maps get cut-short previews.
+export const PREVIEW_NODE_BUDGET = 3000;
+
+// Survivors slip past enemies (at PASS_THROUGH_COST) and past each other; nobody may stop on another unit
+export const canPassThrough = (mover: Unit, occupier: Unit) =>
+    mover.type === 'PLAYER' && (occupier.type === 'ENEMY' || occupier.faction === mover.faction);
+
+const octile = (ax: number, ay: number, bx: number, by: number) => {
+    const dx = Math.abs(ax - bx);
+    const dy = Math.abs(ay - by);
     return (dx + dy) + (1.5 - 2) * Math.min(dx, dy);
-}
+};
+
+// Stairs tiles of each floor, found once per map (tiles are never turned into stairs in place after generation)
+const stairsCache = new WeakMap<FloorData, Coordinate[][]>();
+
+const getStairs = (floor: FloorData): Coordinate[][] => {
+    let stairs = stairsCache.get(floor);
+    if (!stairs) {
+        stairs = floor.map((level, z) => level.flatMap((row, x) => row.flatMap((tile, y) =>
+            tile.type === 'STAIRS_UP' || tile.type === 'STAIRS_DOWN' ? [{ x, y, floor: z }] : []
+        )));
+        stairsCache.set(floor, stairs);
+    }
+    return stairs;
+};
+
+// Stairs of each floor with the rest of the way to the goal (worked out once per search)
+type Exit = { x: number; y: number; rest: number };
+
+const getExits = (stairs: Coordinate[][], end: Coordinate): Exit[][] =>
+    stairs.map((level, z) => level.map(s => ({
+        x: s.x,
+        y: s.y,
+        rest: octile(s.x, s.y, end.x, end.y) + Math.abs(z - end.floor) * CLIMB_COST
+    })));
+
+// Another floor can only be reached through the stairs of this one, so the estimate
+// goes through the closest of them (still a lower bound, so A* stays optimal)
+const getHeuristic = (x: number, y: number, z: number, end: Coordinate, exits: Exit[][]): number => {
+    if (z === end.floor) return octile(x, y, end.x, end.y);
+
+    let best = Infinity;
+    for (const exit of exits[z] ?? []) {
+        const h = octile(x, y, exit.x, exit.y) + exit.rest;
+        if (h < best) best = h;
+    }
+    return best === Infinity ? octile(x, y, end.x, end.y) + Math.abs(z - end.floor) * CLIMB_COST : best;
+};
+
+// Floor reached by taking the stairs on this tile (null if not stairs)
+export const getClimbTarget = (floor: FloorData, at: Coordinate): Coordinate | null => {
+    const tile = floor[at.floor]?.[at.x]?.[at.y];
+    if (!tile) return null;
+
+    let targetFloor: number;
+    if (tile.type === 'STAIRS_UP') targetFloor = at.floor + 1;
+    else if (tile.type === 'STAIRS_DOWN') targetFloor = at.floor - 1;
+    else return null;
+
+    const arrival = floor[targetFloor]?.[at.x]?.[at.y];
+    if (!arrival || !arrival.metadata.walkable) return null;
+    return { x: at.x, y: at.y, floor: targetFloor };
+};
+
+export const isClimbStep = (a: Coordinate, b: Coordinate) => a.floor !== b.floor;
+
+export type PathOptions = {
+    allowClimb?: boolean; // Route through stairs (default true)
+    maxExpansions?: number; // Tiles expanded before giving up with a partial path (default: no limit)
+    keys?: string[]; // Lock ids the mover can open (see getKeys; default: none)
+};
+
+type SearchGrid = {
+    g: Float64Array;
+    parent: Int32Array;
+    seen: Uint32Array; // === searchId: g / parent are valid for this search
+    closed: Uint32Array; // === searchId: expanded in this search
+    occupied: Uint32Array; // === searchId: a unit other than the mover stands here
+    occupant: Int32Array; // Index in the units array of whoever stands here (valid when occupied)
+};
+
+let grid: SearchGrid | null = null;
+let searchId = 0;
+const heap = new MinHeap();
+
+// Grows the shared grid when needed and starts a new search generation
+const beginSearch = (size: number): SearchGrid => {
+    if (!grid || grid.g.length < size || searchId >= 0xffffffff) {
+        grid = {
+            g: new Float64Array(size),
+            parent: new Int32Array(size),
+            seen: new Uint32Array(size),
+            closed: new Uint32Array(size),
+            occupied: new Uint32Array(size),
+            occupant: new Int32Array(size),
+        };
+        searchId = 0;
+    }
+    searchId++;
+    heap.clear();
+    return grid;
+};
 
 export const findPath = (
     start: Coordinate,
     end: Coordinate,
     floor: FloorData,
     units: Unit[],
-    moverId: string
+    moverId: string,
+    options: PathOptions = {}
 ): Coordinate[] | null => {
-    const z = start.floor;
-    const floorMap = floor[z];
+    const allowClimb = options.allowClimb ?? true;
+    const maxExpansions = options.maxExpansions ?? Infinity;
+    const keys = options.keys ?? [];
+    const isOpen = (tile: Tile) => tile.metadata.walkable && (!tile.metadata.lockId || keys.includes(tile.metadata.lockId));
+    if (!allowClimb && start.floor !== end.floor) return null;
 
-    if (!floorMap) return null;
+    const startFloor = floor[start.floor];
+    const endFloor = floor[end.floor];
+    if (!startFloor || !endFloor) return null;
 
-    if (end.x < 0 || end.x >= floorMap.length || end.y < 0 || end.y >= floorMap[0].length) return null;
-    if (!floorMap[end.x][end.y].metadata.walkable) return null;
+    const width = startFloor.length;
+    const height = startFloor[0].length;
+    const inBounds = (x: number, y: number) => x >= 0 && x < width && y >= 0 && y < height;
 
-    const startNode: Node = { x: start.x, y: start.y, g: 0, h: 0, f: 0, parent: null };
-    const openList: Node[] = [startNode];
-    const closedList = new Set<string>();
+    if (!inBounds(start.x, start.y) || !inBounds(end.x, end.y)) return null;
+    if (!isOpen(endFloor[end.x][end.y])) return null;
 
     const mover = units.find(u => u.id === moverId);
     if (!mover) return null;
 
-    while (openList.length > 0) {
-        openList.sort((a, b) => a.f - b.f);
-        const current = openList.shift()!;
-        const currentKey = `${current.x},${current.y}`;
-
-        if (current.x === end.x && current.y === end.y) {
-            const path: Coordinate[] = [];
-            let curr: Node | null = current;
-            while (curr) {
-                path.unshift({ x: curr.x, y: curr.y, floor: z });
-                curr = curr.parent;
-            }
-            return path;
+    const toIndex = (x: number, y: number, z: number) => (z * width + x) * height + y;
+    const exits = getExits(getStairs(floor), end);
+
+    const { g, parent, seen, closed, occupied, occupant } = beginSearch(width * height * floor.length);
+    const id = searchId;
+
+    // Occupancy index: tile -> unit standing there (other than the mover).
+    // The typed grid answers "anyone here?" without touching the map.
+    units.forEach((u, i) => {
+        if (u.id === moverId || !floor[u.position.floor] || !inBounds(u.position.x, u.position.y)) return;
+        const index = toIndex(u.position.x, u.position.y, u.position.floor);
+        occupant[index] = i;
+        occupied[index] = id;
+    });
+
+    const startIndex = toIndex(start.x, start.y, start.floor);
+    const endIndex = toIndex(end.x, end.y, end.floor);
+
+    g[startIndex] = 0;
+    parent[startIndex] = -1;
+    seen[startIndex] = id;
+    heap.push(startIndex, getHeuristic(start.x, start.y, start.floor, end, exits), 0);
+
+    // Relax the edge current -> (nx, ny, nz)
+    const visit = (current: number, nx: number, ny: number, nz: number, cost: number, isClimb: boolean) => {
+        const next = toIndex(nx, ny, nz);
+        if (closed[next] === id) return;
+
+        let moveCost = cost;
+        const occupier = occupied[next] === id ? units[occupant[next]] : undefined;
+        if (occupier) {
+            if (next === endIndex) return; // Destination blocked
+            if (isClimb) return; // Cannot climb onto someone
+            if (!canPassThrough(mover, occupier)) return; // Blocked
+            if (occupier.faction !== mover.faction) moveCost = PASS_THROUGH_COST;
         }
 
-        closedList.add(currentKey);
+        const gScore = g[current] + moveCost;
+        if (seen[next] === id && gScore >= g[next]) return;
 
-        for (const dir of DIRECTIONS) {
-            const nx = current.x + dir.dx;
-            const ny = current.y + dir.dy;
+        g[next] = gScore;
+        parent[next] = current;
+        seen[next] = id;
+        // Among equal f, expand the node closest to the goal first
+        const h = getHeuristic(nx, ny, nz, end, exits);
+        heap.push(next, gScore + h, h);
+    };
 
-            if (nx < 0 || nx >= floorMap.length || ny < 0 || ny >= floorMap[0].length) continue;
-            if (!floorMap[nx][ny].metadata.walkable) continue;
+    const buildPath = (last: number): Coordinate[] => {
+        const path: Coordinate[] = [];
+        for (let i = last; i !== -1; i = parent[i]) {
+            const y = i % height;
+            const x = Math.floor(i / height) % width;
+            const z = Math.floor(i / (width * height));
+            path.push({ x, y, floor: z });
+        }
+        return path.reverse();
+    };
 
-            const nKey = `${nx},${ny}`;
-            if (closedList.has(nKey)) continue;
+    // Where a search cut short heads
+    let closest = startIndex;
+    let closestH = getHeuristic(start.x, start.y, start.floor, end, exits);
+    let lastFree = startIndex;
+    let expanded = 0;
 
-            let moveCost = dir.cost;
-            const occupier = units.find(u => u.position.x === nx && u.position.y === ny && u.position.floor === z && u.id !== moverId);
+    while (heap.size > 0) {
+        const current = heap.pop();
+        if (closed[current] === id) continue; // Stale heap entry
+        closed[current] = id;
 
-            if (occupier) {
-                if (nx === end.x && ny === end.y) {
-                    continue; // Destination blocked
-                }
+        if (current === endIndex) return buildPath(current);
 
-                if (mover.type === 'PLAYER' && occupier.type === 'ENEMY') {
-                    moveCost = 3;
-                } else {
-                    continue; // Blocked
-                }
-            }
+        const cy = current % height;
+        const cx = Math.floor(current / height) % width;
+        const cz = Math.floor(current / (width * height));
+        const floorMap = floor[cz];
 
-            const gScore = current.g + moveCost;
-            const existing = openList.find(n => n.x === nx && n.y === ny);
-
-            if (existing && gScore >= existing.g) continue;
-
-            const hScore = getHeuristic({ x: nx, y: ny, floor: z }, end);
-            const newNode: Node = {
-                x: nx,
-                y: ny,
-                g: gScore,
-                h: hScore,
-                f: gScore + hScore,
-                parent: current
-            };
-
-            if (existing) {
-                existing.g = gScore;
-                existing.f = gScore + hScore;
-                existing.parent = current;
-            } else {
-                openList.push(newNode);
+        if (occupied[current] !== id) { // Nobody may stop on another unit
+            lastFree = current;
+            const h = getHeuristic(cx, cy, cz, end, exits);
+            if (h < closestH) {
+                closest = current;
+                closestH = h;
             }
         }
+        if (++expanded >= maxExpansions) {
+            const head = closest !== startIndex ? closest : lastFree;
+            return head === startIndex ? null : buildPath(head);
+        }
+
+        for (const dir of DIRECTIONS) {
+            const nx = cx + dir.dx;
+            const ny = cy + dir.dy;
+            if (!inBounds(nx, ny) || !isOpen(floorMap[nx][ny])) continue;
+            visit(current, nx, ny, cz, dir.cost, false);
+        }
+
+        const type = floorMap[cx][cy].type;
+        if (allowClimb && (type === 'STAIRS_UP' || type === 'STAIRS_DOWN')) {
+            const climb = getClimbTarget(floor, { x: cx, y: cy, floor: cz });
+            if (climb) visit(current, climb.x, climb.y, climb.floor, CLIMB_COST, true);
+        }
     }
 
     return null;
 };
+
+export type PathLeg = {
+    type: 'MOVE' | 'CLIMB';
+    target: Coordinate;
+    cost: number;
+};
+
+// Splits a multi-floor path into MOVE / CLIMB / MOVE ... legs.
+// costs[i] is the cumulative cost of reaching path[i] (costs[0] === 0).
+export const splitPathIntoLegs = (path: Coordinate[], costs: number[]): PathLeg[] => {
+    const legs: PathLeg[] = [];
+    let legStart = 0;
+
+    for (let i = 1; i < path.length; i++) {
+        if (!isClimbStep(path[i - 1], path[i])) continue;
+
+        if (i - 1 > legStart) {
+            legs.push({ type: 'MOVE', target: path[i - 1], cost: costs[i - 1] - costs[legStart] });
+        }
+        // A CLIMB targets the stairs it starts from
+        legs.push({ type: 'CLIMB', target: path[i - 1], cost: costs[i] - costs[i - 1] });
+        legStart = i;
+    }
+
+    const last = path.length - 1;
+    if (last > legStart) {
+        legs.push({ type: 'MOVE', target: path[last], cost: costs[last] - costs[legStart] });
+    }
+    return legs;
+};
@@ -0,0 +1,84 @@
+import type { Coordinate, FloorData, Unit } from './types';
+import { calculateFOV, tileKey } from './fov';
+
+/**
+ * Perception Module
+ * -----------------
+ * Enemy vision uses the same shadowcasting as the player's FOV, restricted to a
+ * cone around Unit.facing:
+ * - Within CONE_HALF_ANGLE of facing: full sightRange.
+ * - Peripheral vision up to PERIPHERAL_HALF_ANGLE: reduced range.
+ * - Behind: blind.
+ * Sleeping units see nothing.
+ */
+
+const CONE_HALF_ANGLE = 60; // degrees
+const PERIPHERAL_HALF_ANGLE = 110; // degrees
+const PERIPHERAL_RANGE_FACTOR = 0.5;
+
+// Grid axes: x grows downward (rows), y grows to the right (columns)
+const FACING_VECTORS: Record<Unit['facing'], [number, number]> = {
+    UP: [-1, 0],
+    DOWN: [1, 0],
+    LEFT: [0, -1],
+    RIGHT: [0, 1],
+};
+
+// Facing after moving / turning from one tile towards another (dominant axis wins)
+export const getFacing = (from: Coordinate, to: Coordinate, fallback: Unit['facing']): Unit['facing'] => {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    if (dx === 0 && dy === 0) return fallback;
+    if (Math.abs(dx) >= Math.abs(dy)) return dx > 0 ? 'DOWN' : 'UP';
+    return dy > 0 ? 'RIGHT' : 'LEFT';
+};
+
+// Angle in degrees between the observer's facing and the direction to the target
+const angleFromFacing = (observer: Unit, target: Coordinate): number => {
+    const [fx, fy] = FACING_VECTORS[observer.facing];
+    const dx = target.x - observer.position.x;
+    const dy = target.y - observer.position.y;
+    const len = Math.hypot(dx, dy);
+    if (len === 0) return 0;
+    const cos = (dx * fx + dy * fy) / len;
+    return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+};
+
+// How far the observer can see in the target's direction (0 = outside the cone)
+export const getSightRangeTowards = (observer: Unit, target: Coordinate): number => {
+    const angle = angleFromFacing(observer, target);
+    if (angle <= CONE_HALF_ANGLE) return observer.status.sightRange;
+    if (angle <= PERIPHERAL_HALF_ANGLE) return Math.floor(observer.status.sightRange * PERIPHERAL_RANGE_FACTOR);
+    return 0;
+};
+
+export const canSee = (observer: Unit, target: Coordinate, floor: FloorData): boolean => {
+    if (observer.memory?.state === 'SLEEP') return false;
+    if (observer.position.floor !== target.floor) return false;
+
+    const range = getSightRangeTowards(observer, target);
+    const dx = target.x - observer.position.x;
+    const dy = target.y - observer.position.y;
+    if (range <= 0 || dx * dx + dy * dy > range * range) return false;
+
+    // Line of sight: same symmetric FOV as the player's
+    return calculateFOV(observer.position, range, floor).has(tileKey(target.x, target.y, target.floor));
+};
+
+// Whether the observer sees any of the targets: one shadowcast at full range, then each
+// target is checked against its own cone range (a tile's visibility does not depend on the radius)
+export const canSeeAny = (observer: Unit, targets: Coordinate[], floor: FloorData): boolean => {
+    if (observer.memory?.state === 'SLEEP') return false;
+    let visible: Set<string> | null = null;
+
+    return targets.some(target => {
+        if (observer.position.floor !== target.floor) return false;
+        const range = getSightRangeTowards(observer, target);
+        const dx = target.x - observer.position.x;
+        const dy = target.y - observer.position.y;
+        if (range <= 0 || dx * dx + dy * dy > range * range) return false;
+
+        visible ??= calculateFOV(observer.position, observer.status.sightRange, floor);
+        return visible.has(tileKey(target.x, target.y, target.floor));
+    });
+};
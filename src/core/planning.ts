@@ -0,0 +1,129 @@
+import type { Action, Coordinate, FloorData, GameState, Unit } from './types';
+import { CLIMB_COST, PASS_THROUGH_COST, findPath, getClimbTarget, isClimbStep } from './pathfinding';
+import { checkAttackReach } from './combat';
+import { isWithinReach } from './loot';
+import { ITEMS, getKeys, getThrowTargets } from './items';
+
+/**
+ * Turn Planning Module
+ * --------------------
+ * A survivor plans the whole turn as a list of steps, each one starting where the
+ * previous one leaves them.
+ * - getPlannedPosition: where the steps queued so far end up.
+ * - getPathCosts: AP spent along a path (diagonals, squeezing past enemies, sneaking, stairs).
+ * - replanUnitActions: re-prices an edited list of steps (after a removal, a reorder or a
+ *   change of movement mode). Steps that no longer work from their new starting point (a path,
+ *   stairs, an enemy in reach, a container within arm's length, a tile in throwing range), or no
+ *   longer fit in the AP the survivor had before planning, are dropped; the rest is refunded.
+ */
+
+const sameTile = (a: Coordinate, b: Coordinate) => a.x === b.x && a.y === b.y && a.floor === b.floor;
+
+export const getUnitActions = (queue: Action[], unitId: string): Action[] =>
+    queue.filter(a => a.unitId === unitId);
+
+// Where a step leaves the unit (only moving and climbing take it anywhere)
+const getStepEnd = (floor: FloorData, at: Coordinate, action: Action): Coordinate => {
+    if (action.type === 'MOVE' && action.target) return action.target;
+    if (action.type === 'CLIMB') return getClimbTarget(floor, at) ?? at;
+    return at;
+};
+
+export const getPlannedPosition = (floor: FloorData, unit: Unit, queue: Action[]): Coordinate =>
+    getUnitActions(queue, unit.id).reduce((at, action) => getStepEnd(floor, at, action), unit.position);
+
+// Whether a step that stays put can still be done from where the earlier steps leave the unit
+const canActFrom = (state: GameState, unit: Unit, position: Coordinate, step: Action): boolean => {
+    switch (step.type) {
+        case 'ATTACK': {
+            const target = step.targetUnitId ? state.units[step.targetUnitId] : undefined;
+            return !!target && checkAttackReach({ ...unit, position }, target, state.floor) === 'OK';
+        }
+        case 'SEARCH': {
+            const container = step.target && state.containers.find(c => sameTile(c.position, step.target!));
+            return !!container && isWithinReach(container, position);
+        }
+        case 'USE': {
+            // Only thrown items have a target; the rest are used on the spot
+            if (!step.target) return true;
+            const def = step.itemId ? ITEMS[step.itemId] : undefined;
+            return !!def && getThrowTargets(state.floor, position, def.throwRange ?? 0).has(`${step.target.x},${step.target.y},${step.target.floor}`);
+        }
+        default:
+            return true;
+    }
+};
+
+// AP the unit had before any of its queued steps were paid for
+export const getPlanBudget = (unit: Unit, queue: Action[]) =>
+    getUnitActions(queue, unit.id).reduce((total, a) => total + a.cost, unit.status.ap);
+
+// Cumulative cost of reaching each tile of the path (index 0 is the start)
+export const getPathCosts = (path: Coordinate[], mover: Unit, units: Unit[]): number[] => {
+    if (path.length < 2) return [];
+    const multiplier = mover.status.movementMode === 'SNEAK' ? 2 : 1;
+    const costs: number[] = [0];
+    let total = 0;
+
+    for (let i = 0; i < path.length - 1; i++) {
+        const curr = path[i];
+        const next = path[i + 1];
+
+        // Taking the stairs is a CLIMB: fixed cost, not affected by movement mode
+        if (isClimbStep(curr, next)) {
+            total += CLIMB_COST;
+        } else {
+            const enemyThere = units.some(u => u.faction !== mover.faction && sameTile(u.position, next));
+            const step = enemyThere ? PASS_THROUGH_COST : (curr.x !== next.x && curr.y !== next.y ? 1.5 : 1.0);
+            total += step * multiplier;
+        }
+        costs.push(total);
+    }
+    return costs;
+};
+
+// The unit's steps take the place of its old ones (where its first one was, keeping its initiative)
+const replaceUnitActions = (queue: Action[], unitId: string, actions: Action[]): Action[] => {
+    const first = queue.findIndex(a => a.unitId === unitId);
+    const others = queue.filter(a => a.unitId !== unitId);
+    if (first === -1) return [...others, ...actions];
+    const at = queue.slice(0, first).filter(a => a.unitId !== unitId).length;
+    return [...others.slice(0, at), ...actions, ...others.slice(at)];
+};
+
+export const replanUnitActions = (state: GameState, unitId: string, steps: Action[]): GameState => {
+    const unit = state.units[unitId];
+    if (!unit) return state;
+
+    const units = Object.values(state.units);
+    const budget = getPlanBudget(unit, state.actionQueue);
+    let position = unit.position;
+    let spent = 0;
+    const planned: Action[] = [];
+
+    steps.forEach(step => {
+        let action = step;
+
+        if (step.type === 'MOVE' && step.target) {
+            const path = findPath(position, step.target, state.floor, units, unitId, { allowClimb: false, keys: getKeys(unit) });
+            if (!path || path.length < 2) return; // Nowhere to go from here any more
+            action = { ...step, cost: getPathCosts(path, unit, units)[path.length - 1] };
+        } else if (step.type === 'CLIMB') {
+            if (!getClimbTarget(state.floor, position)) return; // No longer standing on stairs
+            action = { ...step, target: { ...position }, cost: CLIMB_COST };
+        } else if (!canActFrom(state, unit, position, step)) {
+            return; // Out of reach from here
+        }
+
+        if (spent + action.cost > budget) return;
+        spent += action.cost;
+        position = getStepEnd(state.floor, position, action);
+        planned.push(action);
+    });
+
+    return {
+        ...state,
+        actionQueue: replaceUnitActions(state.actionQueue, unitId, planned),
+        units: { ...state.units, [unitId]: { ...unit, status: { ...unit.status, ap: budget - spent } } }
+    };
+};
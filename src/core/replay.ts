@@ -0,0 +1,59 @@
+import type { Action, GameState, ReplayFile, ReplayTurn, Unit } from './types';
+
+/**
+ * Replay Module
+ * -------------
+ * A run is fully determined by its seed plus the player actions of every turn:
+ * the map comes from generateMap(seed), and AI decisions / action ids come from
+ * the seeded rngState. The store records each executed actionQueue (and whether each
+ * survivor was sneaking, which changes their footsteps and move costs) in turnLog;
+ * this module packs that log into a small replay file and checks playback for desyncs.
+ */
+
+export const REPLAY_VERSION = 13; // Bumped when a seed stops reproducing the same game (v2: village generator, v3: combat rolls, v4: ranged weapons in loot, v5: enemy archetypes, v6: horde alerts, v7: enemies take the stairs, v8: behavior trees, v9: squads, v10: movement modes, v11: enemies upstairs, v12: locked doors, v13: noises pull chasers)
+
+export const createReplayFile = (state: GameState): ReplayFile => ({
+    version: REPLAY_VERSION,
+    seed: state.seed,
+    ...(state.mapFile ? { map: state.mapFile } : {}),
+    turns: state.turnLog
+});
+
+export const parseReplayFile = (json: string): ReplayFile => {
+    let file: ReplayFile;
+    try {
+        file = JSON.parse(json);
+    } catch {
+        throw new Error('Replay file is not valid JSON');
+    }
+
+    if (!file || typeof file.seed !== 'number' || !Array.isArray(file.turns)) {
+        throw new Error('Not a Fallen Village replay file');
+    }
+    if (file.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version ${file.version}`);
+    }
+    return file;
+};
+
+// Only player input is fed back during playback; AI actions are regenerated
+export const getRecordedPlayerActions = (turn: ReplayTurn, units: Record<string, Unit>): Action[] =>
+    turn.actions.filter(a => units[a.unitId]?.faction === 'PLAYER');
+
+const actionSignature = (a: Action) =>
+    `${a.id}|${a.type}|${a.unitId}|${a.target ? `${a.target.x},${a.target.y},${a.target.floor}` : ''}|${a.targetUnitId ?? ''}|${a.itemId ?? ''}|${a.cost}`;
+
+export const isSameQueue = (recorded: Action[], regenerated: Action[]): boolean => {
+    if (recorded.length !== regenerated.length) return false;
+    return recorded.every((a, i) => actionSignature(a) === actionSignature(regenerated[i]));
+};
+
+export const downloadReplay = (state: GameState) => {
+    const blob = new Blob([JSON.stringify(createReplayFile(state))], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `fallen-village-replay-${state.seed}-t${state.turn}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
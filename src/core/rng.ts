@@ -0,0 +1,34 @@
+// Simple pseudo-random number generator based on seed
+// Every piece of simulation randomness (map, AI, action ids) must come from here
+// so a run can be reproduced from its seed.
+export class PRNG {
+    private seed: number;
+
+    constructor(seed: number) {
+        this.seed = seed;
+    }
+
+    // Linear Congruential Generator
+    next(): number {
+        this.seed = (this.seed * 1664525 + 1013904223) % 4294967296;
+        return this.seed / 4294967296;
+    }
+
+    range(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    // Deterministic replacement for crypto.randomUUID()
+    nextId(prefix: string): string {
+        const hi = Math.floor(this.next() * 4294967296).toString(16).padStart(8, '0');
+        const lo = Math.floor(this.next() * 4294967296).toString(16).padStart(8, '0');
+        return `${prefix}-${hi}${lo}`;
+    }
+
+    getState(): number {
+        return this.seed;
+    }
+}
+
+// Simulation RNG stream derived from the map seed (kept separate from the map generator's stream)
+export const deriveRngState = (seed: number): number => ((seed ^ 0x5bd1e995) >>> 0);
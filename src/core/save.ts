@@ -0,0 +1,191 @@
+import type { GameState, ReplayTurn, Unit } from './types';
+import { deriveRngState } from './rng';
+import { createStartingInventory } from './items';
+
+/**
+ * Save Module
+ * -----------
+ * Versioned (de)serialization of the full GameState.
+ * - Sets (visibleTiles / exploredTiles) are encoded as tagged arrays.
+ * - Every save carries SAVE_VERSION; older saves are upgraded step by step
+ *   through MIGRATIONS before being handed to the store.
+ */
+
+export const SAVE_VERSION = 7;
+export const AUTOSAVE_KEY = 'fallen-village:autosave';
+
+type SaveData = Record<string, unknown>;
+
+export type SaveFile = {
+    version: number;
+    savedAt: number;
+    state: SaveData;
+};
+
+// Migration N upgrades a save from version N to N + 1.
+// When GameState changes shape in types.ts, bump SAVE_VERSION and add an entry here.
+const MIGRATIONS: Record<number, (state: SaveData) => SaveData> = {
+    // v2: seeded simulation RNG and turn log (replay)
+    1: (state) => ({
+        ...state,
+        rngState: deriveRngState(state.seed as number),
+        turn: 0,
+        turnLog: []
+    }),
+    // v3: sound propagation
+    2: (state) => ({ ...state, sounds: [] }),
+    // v4: hand-authored maps
+    3: (state) => ({ ...state, mapFile: null }),
+    // v5: inventories (players get the starting kit)
+    4: (state) => ({
+        ...state,
+        groundItems: [],
+        units: Object.fromEntries(Object.entries(state.units as Record<string, Unit>).map(([id, unit]) => [
+            id,
+            unit.type === 'PLAYER' && !unit.inventory ? { ...unit, inventory: createStartingInventory(unit.type) } : unit
+        ]))
+    }),
+    // v6: searchable containers
+    5: (state) => ({ ...state, containers: [] }),
+    // v7: movement modes in the turn log (not recorded before, so everyone ran)
+    6: (state) => ({
+        ...state,
+        turnLog: (state.turnLog as ReplayTurn[]).map(turn => ({ ...turn, modes: turn.modes ?? {} }))
+    }),
+};
+
+const SET_TAG = '__set';
+
+const replacer = (_key: string, value: unknown) => {
+    if (value instanceof Set) {
+        return { [SET_TAG]: Array.from(value) };
+    }
+    return value;
+};
+
+const reviver = (_key: string, value: unknown) => {
+    if (value && typeof value === 'object' && SET_TAG in value) {
+        return new Set((value as Record<string, unknown[]>)[SET_TAG]);
+    }
+    return value;
+};
+
+// Runtime-only fields: never written, reset on load
+type TransientKey = 'damageEvents' | 'targetingItemId' | 'isAttackTargeting' | 'lootSummary' | 'eventLog' | 'replay' | 'selectedUnitId' | 'network' | 'debugAi';
+const TRANSIENT_DEFAULTS: Pick<GameState, TransientKey> = {
+    damageEvents: [],
+    targetingItemId: null,
+    isAttackTargeting: false,
+    lootSummary: null,
+    eventLog: [],
+    replay: null,
+    selectedUnitId: null,
+    network: null,
+    debugAi: false
+};
+
+// Typed as a Record so adding a field to GameState fails to compile until it is listed here
+const STATE_FIELDS: Record<Exclude<keyof GameState, TransientKey>, true> = {
+    floor: true,
+    units: true,
+    phase: true,
+    timer: true,
+    actionQueue: true,
+    seed: true,
+    visibleTiles: true,
+    exploredTiles: true,
+    debugFow: true,
+    sounds: true,
+    rngState: true,
+    turn: true,
+    turnLog: true,
+    mapFile: true,
+    groundItems: true,
+    containers: true
+};
+const STATE_KEYS = Object.keys(STATE_FIELDS) as (keyof typeof STATE_FIELDS)[];
+
+export const serializeGameState = (state: GameState): string => {
+    const data: SaveData = {};
+    STATE_KEYS.forEach(key => {
+        data[key] = state[key];
+    });
+
+    const file: SaveFile = {
+        version: SAVE_VERSION,
+        savedAt: Date.now(),
+        state: data
+    };
+    return JSON.stringify(file, replacer);
+};
+
+const migrate = (file: SaveFile): SaveData => {
+    let data = file.state;
+    for (let v = file.version; v < SAVE_VERSION; v++) {
+        const step = MIGRATIONS[v];
+        if (!step) {
+            throw new Error(`No migration from save version ${v} to ${v + 1}`);
+        }
+        data = step(data);
+    }
+    return data;
+};
+
+export const deserializeGameState = (json: string): GameState => {
+    let file: SaveFile;
+    try {
+        file = JSON.parse(json, reviver);
+    } catch {
+        throw new Error('Save file is not valid JSON');
+    }
+
+    if (!file || typeof file.version !== 'number' || !file.state) {
+        throw new Error('Not a Fallen Village save file');
+    }
+    if (file.version > SAVE_VERSION) {
+        throw new Error(`Save version ${file.version} is newer than supported (${SAVE_VERSION})`);
+    }
+
+    const data = migrate(file);
+    const missing = STATE_KEYS.filter(key => !(key in data));
+    if (missing.length > 0) {
+        throw new Error(`Save file is missing: ${missing.join(', ')}`);
+    }
+
+    return { ...(data as unknown as GameState), ...TRANSIENT_DEFAULTS };
+};
+
+// --- localStorage (Autosave) ---
+
+export const writeAutosave = (state: GameState) => {
+    try {
+        localStorage.setItem(AUTOSAVE_KEY, serializeGameState(state));
+    } catch (e) {
+        console.log('Autosave failed', e);
+    }
+};
+
+export const readAutosave = (): GameState | null => {
+    const json = localStorage.getItem(AUTOSAVE_KEY);
+    if (!json) return null;
+
+    try {
+        return deserializeGameState(json);
+    } catch (e) {
+        console.log('Autosave discarded', e);
+        localStorage.removeItem(AUTOSAVE_KEY);
+        return null;
+    }
+};
+
+// --- File Export ---
+
+export const downloadSave = (state: GameState) => {
+    const blob = new Blob([serializeGameState(state)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `fallen-village-${state.seed}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
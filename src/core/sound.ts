@@ -0,0 +1,141 @@
+import type { Coordinate, FloorData, SoundEvent, SoundKind, Unit } from './types';
+import { getClimbTarget } from './pathfinding';
+
+/**
+ * Sound Module
+ * ------------
+ * Every noisy event emits a SoundEvent that floods outward from its origin:
+ * - Volume at the origin is scaled by the tile's noiseCoefficient (MUD is loud).
+ * - Each step costs 1 (1.5 diagonal), like movement.
+ * - Entering a tile costs extra in proportion to its opacity (walls muffle sound).
+ * - Stairwells carry sound to the adjacent floor, at a fixed extra cost.
+ * The remaining intensity at a tile is what a listener there hears (>= 0 is audible).
+ */
+
+export const SOUND_VOLUMES: Record<Exclude<SoundKind, 'FOOTSTEP'>, number> = {
+    ATTACK: 5,
+    SHOT: 25, // A gunshot carries across most of the village
+    CLIMB: 4,
+    BREAK: 8,
+    BANG: 12,
+    SEARCH: 3, // Rummaging; containers scale it (see loot.ts)
+    SCREAM: 16, // A Screamer calling the horde
+    GROWL: 6, // An enemy alerting the pack around it (see ai.ts)
+};
+
+const WALL_ATTENUATION = 3; // Extra cost of passing through a fully opaque tile
+const STAIRWELL_ATTENUATION = 2; // Cost of carrying up or down a flight of stairs
+const SLEEP_WAKE_INTENSITY = 1; // Sleepers only notice sounds that are clearly audible
+const HEARING_HEADROOM = 3; // Largest hearing bonus: sounds are propagated this much further for sharp ears
+
+const DIRECTIONS = [
+    { dx: 1, dy: 0, cost: 1.0 },
+    { dx: 1, dy: 1, cost: 1.5 },
+    { dx: 0, dy: 1, cost: 1.0 },
+    { dx: -1, dy: 1, cost: 1.5 },
+    { dx: -1, dy: 0, cost: 1.0 },
+    { dx: -1, dy: -1, cost: 1.5 },
+    { dx: 0, dy: -1, cost: 1.0 },
+    { dx: 1, dy: -1, cost: 1.5 },
+];
+
+const key = (x: number, y: number, floor: number) => `${x},${y},${floor}`;
+
+// Base volume scaled by the surface the sound is made on
+export const getEmittedVolume = (floorData: FloorData, origin: Coordinate, baseVolume: number): number => {
+    const tile = floorData[origin.floor]?.[origin.x]?.[origin.y];
+    if (!tile || baseVolume <= 0) return 0;
+    return baseVolume * tile.metadata.noiseCoefficient;
+};
+
+export const createSound = (
+    floorData: FloorData,
+    kind: SoundKind,
+    origin: Coordinate,
+    baseVolume: number,
+    sourceUnitId?: string
+): SoundEvent | null => {
+    const volume = getEmittedVolume(floorData, origin, baseVolume);
+    if (volume <= 0) return null;
+    return { kind, origin: { ...origin }, volume, sourceUnitId };
+};
+
+export const createFootstep = (floorData: FloorData, unit: Unit, at: Coordinate): SoundEvent | null =>
+    createSound(floorData, 'FOOTSTEP', at, unit.status.noiseLevel ?? 3, unit.id);
+
+// Dijkstra flood: "x,y,floor" -> remaining intensity (only audible tiles are included)
+export const propagateSound = (floorData: FloorData, origin: Coordinate, volume: number): Map<string, number> => {
+    const heard = new Map<string, number>();
+    if (!floorData[origin.floor] || volume <= 0) return heard;
+
+    const width = floorData[origin.floor].length;
+    const height = floorData[origin.floor][0].length;
+
+    // Small radius: a sorted frontier is plenty
+    const frontier: { x: number; y: number; z: number; intensity: number }[] = [{ x: origin.x, y: origin.y, z: origin.floor, intensity: volume }];
+    heard.set(key(origin.x, origin.y, origin.floor), volume);
+
+    const reach = (x: number, y: number, z: number, intensity: number) => {
+        if (intensity < 0) return;
+        const nKey = key(x, y, z);
+        if (intensity <= (heard.get(nKey) ?? -Infinity)) return;
+        heard.set(nKey, intensity);
+        frontier.push({ x, y, z, intensity });
+    };
+
+    while (frontier.length > 0) {
+        frontier.sort((a, b) => b.intensity - a.intensity);
+        const current = frontier.shift()!;
+        if (current.intensity < (heard.get(key(current.x, current.y, current.z)) ?? -Infinity)) continue;
+        const floor = floorData[current.z];
+
+        for (const dir of DIRECTIONS) {
+            const nx = current.x + dir.dx;
+            const ny = current.y + dir.dy;
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+            reach(nx, ny, current.z, current.intensity - dir.cost - floor[nx][ny].metadata.opacity * WALL_ATTENUATION);
+        }
+
+        const stairwell = getClimbTarget(floorData, { x: current.x, y: current.y, floor: current.z });
+        if (stairwell) reach(stairwell.x, stairwell.y, stairwell.floor, current.intensity - STAIRWELL_ATTENUATION);
+    }
+
+    return heard;
+};
+
+export type HeardSound = {
+    sound: SoundEvent;
+    intensity: number;
+};
+
+// Propagates each sound once and answers "what is the loudest thing this unit hears?"
+export const createHearing = (floorData: FloorData, sounds: SoundEvent[]) => {
+    const maps = new Map<SoundEvent, Map<string, number>>();
+    const getMap = (sound: SoundEvent) => {
+        let map = maps.get(sound);
+        if (!map) {
+            map = propagateSound(floorData, sound.origin, sound.volume + HEARING_HEADROOM);
+            maps.set(sound, map);
+        }
+        return map;
+    };
+
+    // A hearing bonus lets the listener pick up sounds that have faded below zero for others
+    return (listener: Unit, ignore: (sound: SoundEvent) => boolean = () => false, hearingBonus = 0): HeardSound | null => {
+        const threshold = (listener.memory?.state === 'SLEEP' ? SLEEP_WAKE_INTENSITY : 0) - Math.min(hearingBonus, HEARING_HEADROOM);
+        const at = key(listener.position.x, listener.position.y, listener.position.floor);
+        let loudest: HeardSound | null = null;
+
+        for (const sound of sounds) {
+            if (sound.sourceUnitId === listener.id || ignore(sound)) continue;
+            const heard = getMap(sound).get(at);
+            if (heard === undefined) continue;
+            const intensity = heard - HEARING_HEADROOM;
+            if (intensity < threshold) continue;
+            if (!loudest || intensity > loudest.intensity) {
+                loudest = { sound, intensity };
+            }
+        }
+        return loudest;
+    };
+};
@@ -0,0 +1,48 @@
+import type { FloorData, GameState, MovementModes, Unit } from './types';
+import { calculateFOV } from './fov';
+
+/**
+ * Squad Module
+ * ------------
+ * The survivors under the player's command.
+ * - Every PLAYER-faction unit is a squad member; each plans its own actions.
+ * - The squad shares what it sees: the FOV is the union of every member's.
+ * - One member is selected in the UI at a time (falls back to the first one alive).
+ *   In an online game only the members assigned to this player can be selected.
+ * - The game is lost only when every member is dead.
+ */
+
+export const SQUAD_SIZE = 3; // Survivors on a generated map
+
+export const getSquad = (units: Record<string, Unit>): Unit[] =>
+    Object.values(units).filter(u => u.faction === 'PLAYER');
+
+export const isSquadWipedOut = (units: Record<string, Unit>) => getSquad(units).length === 0;
+
+export const calculateSquadFOV = (units: Record<string, Unit>, floor: FloorData): Set<string> => {
+    const visible = new Set<string>();
+    getSquad(units).forEach(member => {
+        calculateFOV(member.position, member.status.sightRange, floor).forEach(key => visible.add(key));
+    });
+    return visible;
+};
+
+export const getSquadModes = (units: Record<string, Unit>): MovementModes =>
+    Object.fromEntries(getSquad(units).map(u => [u.id, u.status.movementMode ?? 'RUN']));
+
+// Online, each player only gives orders to the survivors assigned to them
+export const getCommandableSquad = (state: Pick<GameState, 'units' | 'network'>): Unit[] =>
+    getSquad(state.units).filter(u => !state.network || state.network.controlledUnitIds.includes(u.id));
+
+export const getSelectedUnit = (state: Pick<GameState, 'units' | 'selectedUnitId' | 'network'>): Unit | undefined => {
+    const squad = getCommandableSquad(state);
+    return squad.find(u => u.id === state.selectedUnitId) ?? squad[0];
+};
+
+// The member after (or before) the given one, wrapping around
+export const getNextSquadMember = (squad: Unit[], currentId: string | null, step: 1 | -1 = 1): Unit | undefined => {
+    if (squad.length === 0) return undefined;
+    const index = squad.findIndex(u => u.id === currentId);
+    if (index === -1) return squad[0];
+    return squad[(index + step + squad.length) % squad.length];
+};
@@ -1,85 +1,69 @@
 import { create } from 'zustand';
-import type { GameState, GameActions, Coordinate, Unit, Action } from './types';
-import { generateMap } from './mapGenerator';
-import { decideEnemyActions } from './ai';
-import { calculateSimpleFOV } from './fov';
-
-// Initial State
-const initialState: GameState = {
-    floor: [],
-    units: {},
-    phase: 'DECISION',
-    timer: 5.0,
-    actionQueue: [],
-    seed: 0,
-    visibleTiles: new Set(),
-    exploredTiles: new Set(),
-    debugFow: false,
-    damageEvents: []
-};
+import type { GameState, GameActions, UnitStatus } from './types';
+import { readAutosave, writeAutosave } from './save';
+import { getRecordedPlayerActions, isSameQueue } from './replay';
+import { getCommandableSquad, getNextSquadMember, isSquadWipedOut } from './squad';
+import { getUnitActions, replanUnitActions } from './planning';
+import {
+    DECISION_TIME, initialGameState, createGameState, placeUnit,
+    enqueueAction, beginExecution, beginDecision
+} from './engine';
+
+// Pause between replayed turns so playback can be followed on screen
+const REPLAY_TURN_DELAY = 0.6;
+const MAX_LOG_ENTRIES = 30;
 
 export const useGameStore = create<GameState & GameActions>((set, get) => ({
-    ...initialState,
+    ...initialGameState,
 
-    initGame: (seed = Date.now()) => {
-        const { floor, units } = generateMap(seed);
-        const player = Object.values(units).find(u => u.type === 'PLAYER');
-
-        let visible = new Set<string>();
-        let explored = new Set<string>();
+    initGame: (seed = Date.now(), mapFile) => {
+        set(createGameState(seed, mapFile));
+    },
 
-        if (player) {
-            visible = calculateSimpleFOV(player.position, player.status.sightRange, floor);
-            explored = new Set(visible);
-        }
+    loadGameState: (state) => {
+        set({ ...initialGameState, ...state });
+    },
 
-        set({
-            ...initialState,
-            seed,
-            floor,
-            units,
-            visibleTiles: visible,
-            exploredTiles: explored
-        });
+    restoreAutosave: () => {
+        const saved = readAutosave();
+        if (!saved) return false;
+        get().loadGameState(saved);
+        return true;
     },
 
     setPhase: (newPhase) => {
         set((state) => {
-            if (newPhase === 'DECISION') {
-                const updatedUnits = { ...state.units };
-                Object.keys(updatedUnits).forEach(key => {
-                    const u = updatedUnits[key];
-                    const recovery = u.status.apRecovery || 5;
-                    const currentAp = u.status.ap || 0;
-                    updatedUnits[key] = {
-                        ...u,
-                        status: {
-                            ...u.status,
-                            ap: Math.min(currentAp + recovery, u.status.maxAp)
-                        }
-                    };
-                });
-                return { phase: newPhase, timer: 5.0, units: updatedUnits };
-            }
-
-            if (newPhase === 'EXECUTION') {
-                const aiActions = decideEnemyActions(state);
-                const combinedQueue = [...state.actionQueue, ...aiActions];
-                return { phase: newPhase, actionQueue: combinedQueue };
-            }
-
+            if (newPhase === 'DECISION') return beginDecision(state);
+            if (newPhase === 'EXECUTION') return beginExecution(state);
             return { phase: newPhase };
         });
+
+        // Autosave at the start of every decision phase
+        if (newPhase === 'DECISION') {
+            writeAutosave(get());
+        }
     },
 
     updateTimer: (dt) => {
         const state = get();
         if (state.phase !== 'DECISION') return;
+        // Game over: time stops once the whole squad is dead
+        if (state.floor.length > 0 && isSquadWipedOut(state.units)) return;
 
         const newTime = Math.max(0, state.timer - dt);
 
+        if (state.replay) {
+            set({ timer: newTime });
+            if (newTime <= DECISION_TIME - REPLAY_TURN_DELAY) {
+                get().stepReplay();
+            }
+            return;
+        }
+
         if (newTime <= 0) {
             set({ timer: 0 });
+            // Online, the turn runs once the host has everyone's orders (netplay.ts)
+            if (state.network) return;
             get().setPhase('EXECUTION');
         } else {
             set({ timer: newTime });
@@ -90,32 +74,7 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
         units: { ...state.units, [unit.id]: unit }
     })),
 
-    updateUnitPosition: (unitId, position) => set((state) => {
-        const unit = state.units[unitId];
-        if (!unit) return {};
-
-        const updates: Partial<GameState> = {
-            units: {
-                ...state.units,
-                [unitId]: { ...unit, position }
-            }
-        };
-
-        // FOW Update for Player
-        if (unit.type === 'PLAYER') {
-            const range = unit.status.sightRange;
-            const newVisible = calculateSimpleFOV(position, range, state.floor);
-
-            // Merge with explored
-            const newExplored = new Set(state.exploredTiles);
-            newVisible.forEach(key => newExplored.add(key));
-
-            updates.visibleTiles = newVisible;
-            updates.exploredTiles = newExplored;
-        }
-
-        return updates;
-    }),
+    updateUnitPosition: (unitId, position) => set((state) => placeUnit(state, unitId, position)),
 
     updateUnitStatus: (unitId, status) => set((state) => {
         const unit = state.units[unitId];
@@ -128,30 +87,14 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
         };
     }),
 
-    queueAction: (action) => set((state) => {
-        let newUnits = state.units;
-        if (action.cost > 0) {
-            const unit = state.units[action.unitId];
-            if (unit) {
-                newUnits = {
-                    ...state.units,
-                    [action.unitId]: {
-                        ...unit,
-                        status: { ...unit.status, ap: unit.status.ap - action.cost }
-                    }
-                };
-            }
-        }
-        return {
-            actionQueue: [...state.actionQueue, action],
-            units: newUnits
-        };
-    }),
+    queueAction: (request) => set((state) => enqueueAction(state, request)),
 
-    cancelAction: () => set((state) => {
-        if (state.actionQueue.length === 0) return {};
-        const lastAction = state.actionQueue[state.actionQueue.length - 1];
-        const newQueue = state.actionQueue.slice(0, -1);
+    // Takes back the unit's last queued action (each survivor has its own queue)
+    cancelAction: (unitId) => set((state) => {
+        const index = state.actionQueue.map(a => a.unitId).lastIndexOf(unitId);
+        if (index === -1) return {};
+        const lastAction = state.actionQueue[index];
+        const newQueue = state.actionQueue.filter((_, i) => i !== index);
 
         let newUnits = state.units;
         if (lastAction.cost > 0) {
@@ -172,57 +115,56 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
         };
     }),
 
+    // Any step can be taken out; the steps after it are re-planned from where they now start
+    removeAction: (actionId) => set((state) => {
+        const action = state.actionQueue.find(a => a.id === actionId);
+        if (!action) return {};
+        const steps = getUnitActions(state.actionQueue, action.unitId).filter(a => a.id !== actionId);
+        return replanUnitActions(state, action.unitId, steps);
+    }),
+
+    moveAction: (actionId, offset) => set((state) => {
+        const action = state.actionQueue.find(a => a.id === actionId);
+        if (!action) return {};
+        const steps = getUnitActions(state.actionQueue, action.unitId);
+        const from = steps.indexOf(action);
+        const to = from + offset;
+        if (to < 0 || to >= steps.length) return {};
+        [steps[from], steps[to]] = [steps[to], steps[from]];
+        return replanUnitActions(state, action.unitId, steps);
+    }),
+
     clearActionQueue: () => set({ actionQueue: [] }),
 
     toggleDebugFow: () => set(state => ({ debugFow: !state.debugFow })),
 
-    applyDamage: (targetId, amount) => set((state) => {
-        const target = state.units[targetId];
-        if (!target) return {};
-
-        const newHp = target.status.hp - amount;
+    toggleDebugAi: () => set(state => ({ debugAi: !state.debugAi })),
 
-        // Add Damage Event for UI
-        const eventId = crypto.randomUUID();
-        const damageEvent = {
-            id: eventId,
-            position: { ...target.position }, // Snapshot position
+    addDamageEvent: (position, amount) => set((state) => ({
+        damageEvents: [...state.damageEvents, {
+            id: crypto.randomUUID(),
+            position: { ...position }, // Snapshot position
             amount,
             timestamp: Date.now()
-        };
-
-        // Death Logic
-        let newUnits = { ...state.units };
-        if (newHp <= 0) {
-            delete newUnits[targetId];
-            console.log(`Unit ${targetId} died.`);
-        } else {
-            newUnits[targetId] = {
-                ...target,
-                status: { ...target.status, hp: newHp, isInjured: newHp < target.status.maxHp * 0.5 }
-            };
-        }
-
-        return {
-            units: newUnits,
-            damageEvents: [...state.damageEvents, damageEvent]
-        };
-    }),
+        }]
+    })),
 
     removeDamageEvent: (eventId) => set((state) => ({
         damageEvents: state.damageEvents.filter(e => e.id !== eventId)
     })),
 
+    // Queued moves are re-priced for the new mode
     toggleSneak: (unitId) => set((state) => {
         const unit = state.units[unitId];
         if (!unit) return {};
 
         const currentMode = unit.status.movementMode || 'RUN';
-        const newMode = currentMode === 'RUN' ? 'SNEAK' : 'RUN';
+        const newMode: UnitStatus['movementMode'] = currentMode === 'RUN' ? 'SNEAK' : 'RUN';
         // Default noise is 3. Sneak is 0.
         const newNoise = newMode === 'SNEAK' ? 0 : 3;
 
-        return {
+        const toggled = {
+            ...state,
             units: {
                 ...state.units,
                 [unitId]: {
@@ -235,6 +177,86 @@ export const useGameStore = create<GameState & GameActions>((set, get) => ({
                 }
             }
         };
+        return replanUnitActions(toggled, unitId, getUnitActions(state.actionQueue, unitId));
+    }),
+
+    // One targeting mode at a time
+    setTargetingItem: (itemId) => set(itemId ? { targetingItemId: itemId, isAttackTargeting: false } : { targetingItemId: null }),
+
+    setAttackTargeting: (active) => set(active ? { isAttackTargeting: true, targetingItemId: null } : { isAttackTargeting: false }),
+
+    setLootSummary: (summary) => set({ lootSummary: summary }),
+
+    addLogEntry: (kind, text) => set(state => ({
+        eventLog: [...state.eventLog, { turn: state.turn, kind, text }].slice(-MAX_LOG_ENTRIES)
+    })),
+
+    startReplay: (file) => {
+        get().initGame(file.seed, file.map);
+        set({ replay: { file, cursor: 0, desyncs: 0 } });
+    },
+
+    stepReplay: () => {
+        const { replay, phase } = get();
+        if (!replay || phase !== 'DECISION') return;
+
+        const recorded = replay.file.turns[replay.cursor];
+        if (!recorded) {
+            console.log(`Replay finished (${replay.desyncs} desynced turns)`);
+            set({ replay: null });
+            return;
+        }
+
+        // Feed the recorded player input, then let the AI regenerate its part of the queue
+        // (ids are re-drawn from the RNG when execution starts, which must reproduce the recorded ones)
+        Object.entries(recorded.modes).forEach(([unitId, mode]) => {
+            const unit = get().units[unitId];
+            if (unit && (unit.status.movementMode ?? 'RUN') !== mode) get().toggleSneak(unitId);
+        });
+        getRecordedPlayerActions(recorded, get().units).forEach(action => {
+            get().queueAction(action);
+        });
+        get().setPhase('EXECUTION');
+
+        const regenerated = get().actionQueue;
+        const desynced = !isSameQueue(recorded.actions, regenerated);
+        if (desynced) {
+            console.log(`Replay desync at turn ${recorded.turn}`, recorded.actions, regenerated);
+        }
+
+        set({
+            replay: {
+                ...replay,
+                cursor: replay.cursor + 1,
+                desyncs: replay.desyncs + (desynced ? 1 : 0)
+            }
+        });
+    },
+
+    stopReplay: () => set({ replay: null }),
+
+    // Orders go to the selected survivor; a targeting mode started for another one is dropped
+    selectUnit: (unitId) => set((state) => {
+        if (!getCommandableSquad(state).some(u => u.id === unitId) || unitId === state.selectedUnitId) return {};
+        return { selectedUnitId: unitId, targetingItemId: null, isAttackTargeting: false };
     }),
 
+    cycleSelection: (step = 1) => {
+        const state = get();
+        const next = getNextSquadMember(getCommandableSquad(state), state.selectedUnitId, step);
+        if (next) state.selectUnit(next.id);
+    },
+
+    setNetworkSession: (session) => set({ network: session }),
+
+    // Lockstep: drop the local plan (refunding its AP) and run the turn with the agreed player input
+    runTurn: (requests) => {
+        set((state) => {
+            const planners = new Set(state.actionQueue.map(a => a.unitId));
+            return [...planners].reduce<GameState>((acc, unitId) => replanUnitActions(acc, unitId, []), state);
+        });
+        requests.forEach(request => get().queueAction(request));
+        get().setPhase('EXECUTION');
+    },
+
 }));
@@ -0,0 +1,22 @@
+import type { Coordinate, Tile, TileMetadata, TileType } from './types';
+
+// Default metadata of every tile type (generators and loaders start from these)
+const TILE_PROPERTIES: Record<TileType, Omit<TileMetadata, 'spawnWeight'>> = {
+    CONCRETE: { noiseCoefficient: 1.0, isInteractable: false, opacity: 0.0, walkable: true },
+    FLOOR: { noiseCoefficient: 1.2, isInteractable: false, opacity: 0.0, walkable: true }, // Creaky boards
+    DOOR: { noiseCoefficient: 1.0, isInteractable: false, opacity: 0.0, walkable: true },
+    WALL: { noiseCoefficient: 0.0, isInteractable: false, opacity: 1.0, walkable: false },
+    MUD: { noiseCoefficient: 1.5, isInteractable: false, opacity: 0.0, walkable: true },
+    STAIRS_UP: { noiseCoefficient: 1.0, isInteractable: true, opacity: 0.0, walkable: true },
+    STAIRS_DOWN: { noiseCoefficient: 1.0, isInteractable: true, opacity: 0.0, walkable: true },
+    STAIRS: { noiseCoefficient: 1.0, isInteractable: true, opacity: 0.0, walkable: true },
+    EMPTY: { noiseCoefficient: 0.0, isInteractable: false, opacity: 0.0, walkable: false }, // Open air above the street
+};
+
+export const TILE_TYPES = Object.keys(TILE_PROPERTIES) as TileType[];
+
+export const createTile = (type: TileType, coordinate: Coordinate, spawnWeight = 1.0): Tile => ({
+    coordinate: { ...coordinate },
+    type,
+    metadata: { ...TILE_PROPERTIES[type], spawnWeight },
+});
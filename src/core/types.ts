@@ -4,7 +4,7 @@ export type Coordinate = {
   floor: number;
 };
 
-export type TileType = 'CONCRETE' | 'WALL' | 'MUD' | 'STAIRS_UP' | 'STAIRS_DOWN' | 'STAIRS' | 'EMPTY';
+export type TileType = 'CONCRETE' | 'FLOOR' | 'DOOR' | 'WALL' | 'MUD' | 'STAIRS_UP' | 'STAIRS_DOWN' | 'STAIRS' | 'EMPTY';
 
 export type TileMetadata = {
   noiseCoefficient: number; // 1.0 = normal, >1.0 = loud (e.g. mud/glass), <1.0 = quiet
@@ -12,6 +12,7 @@ export type TileMetadata = {
   isInteractable: boolean;
   opacity: number;          // 0 = transparent, 1 = opaque (blocks vision)
   walkable: boolean;
+  lockId?: string;          // DOOR: locked, only passable with a key that unlocks it
 };
 
 export type Tile = {
@@ -32,14 +33,91 @@ export type UnitStatus = {
   isInjured: boolean; // Increases noise, movement cost
   noiseLevel: number; // Noise generated by this unit (for hearing)
   movementMode?: 'RUN' | 'SNEAK'; // Default RUN
+  armor?: number; // Flat damage reduction per hit (a hit still does at least 1)
+};
 
 export type ActionType = 'MOVE' | 'ATTACK' | 'CLIMB';
 export type Faction = 'PLAYER' | 'ENEMY';
 export type UnitType = 'PLAYER' | 'ENEMY';
+export type EnemyArchetypeId = 'BITER' | 'RUNNER' | 'SCREAMER' | 'BRUTE' | 'BLIND';
 
 export type AIMemory = {
   lastKnownTargetPos?: Coordinate;
-  state: 'IDLE' | 'SLEEP' | 'WANDER' | 'CHASE' | 'SEARCH' | 'ATTACK';
+  state: 'IDLE' | 'SLEEP' | 'WANDER' | 'CHASE' | 'SEARCH'; // IDLE = standing guard
+  post?: Coordinate; // Where an IDLE enemy stands guard (set the first time it is seen IDLE)
+};
+
+export type ItemCategory = 'WEAPON' | 'AMMO' | 'CONSUMABLE' | 'KEY' | 'NOISEMAKER';
+
+// Combat stats of a weapon (or of bare hands, see combat.ts)
+export type WeaponStats = {
+  damage: [number, number]; // Min and max per hit
+  accuracy: number;         // Base hit chance (0-1)
+  critChance: number;       // 0-1
+  critMultiplier: number;
+  knockback: number;        // Tiles a surviving target is pushed back
+  range?: number;           // Ranged weapons only: farthest target (straight-line tiles)
+  optimalRange?: number;    // Ranged: full accuracy up to this distance
+  rangePenalty?: number;    // Ranged: hit chance lost per tile beyond optimalRange
+  ammo?: string;            // Ranged: item id used up per shot (thrown weapons use themselves)
+  shotVolume?: number;      // Ranged: noise at the shooter
+};
+
+// Static item data (see items.ts); inventories only store ids and counts
+export type ItemDefinition = {
+  id: string;
+  name: string;
+  category: ItemCategory;
+  weight: number;   // Per item
+  maxStack: number; // Items per inventory slot
+  useCost?: number; // AP to use (consumables, noise-makers)
+  weapon?: WeaponStats; // WEAPON: combat stats
+  heal?: number;    // CONSUMABLE: HP restored
+  throwRange?: number; // NOISEMAKER: farthest tile it can be thrown to
+  noise?: { kind: SoundKind; volume: number }; // NOISEMAKER: sound where it lands
+  unlocks?: string; // KEY: lock id it opens
+  description: string;
+};
+
+export type ItemStack = {
+  itemId: string;
+  quantity: number;
+};
+
+export type Inventory = {
+  items: ItemStack[]; // One entry per slot
+  equippedWeapon: string | null; // Item id of the wielded weapon (one of the carried items)
+};
+
+export type ContainerKind = 'CABINET' | 'CAR' | 'CORPSE';
+
+// Searchable stash on an interactable tile (see loot.ts)
+export type Container = {
+  id: string;
+  kind: ContainerKind;
+  position: Coordinate;
+  items: ItemStack[]; // Rolled when the map is made; whatever is left after looting
+  searchCost: number; // AP of work needed to search it completely
+  progress: number;   // AP of work done so far (kept when a search is interrupted)
+};
+
+export type LootSummary = {
+  unitId: string;
+  containerId: string;
+  kind: ContainerKind;
+  found: ItemStack[];
+  leftBehind: ItemStack[]; // Did not fit in the bag
+};
+
+export type LogEntry = {
+  turn: number;
+  kind: 'ALERT' | 'COMBAT';
+  text: string;
+};
+
+export type GroundItem = {
+  position: Coordinate;
+  item: ItemStack;
 };
 
 export type Unit = {
@@ -51,18 +129,24 @@ export type Unit = {
   status: UnitStatus;
   facing: 'UP' | 'DOWN' | 'LEFT' | 'RIGHT'; // For sprite direction
   memory?: AIMemory; // Only for AI
+  inventory?: Inventory; // Units without one cannot carry items
+  archetype?: EnemyArchetypeId; // Enemies only: stats and behavior template (see enemies.ts)
 };
 
 export type Action = {
   id: string;
-  type: 'MOVE' | 'WAIT' | 'INTERACT' | 'ATTACK' | 'CLIMB'; // Added ATTACK
+  type: 'MOVE' | 'WAIT' | 'INTERACT' | 'ATTACK' | 'CLIMB' | 'USE' | 'DROP' | 'EQUIP' | 'PICKUP' | 'SEARCH' | 'SCREAM' | 'ALERT';
   unitId: string;
-  target?: Coordinate; // For move
+  target?: Coordinate; // For move (and where a noise-maker is thrown / the container searched)
   targetUnitId?: string; // For attack
+  itemId?: string; // For USE / DROP / EQUIP / PICKUP (EQUIP without an item unequips)
   cost: number;
   status: 'QUEUED' | 'EXECUTING' | 'COMPLETED';
 };
 
+// New actions get a planning id; the real one is drawn from the seeded RNG when the turn executes
+export type ActionRequest = Omit<Action, 'id'>;
+
 export type GamePhase = 'DECISION' | 'EXECUTION';
 
 export type DamageEvent = {
@@ -72,6 +156,93 @@ export type DamageEvent = {
   timestamp: number;
 };
 
+export type SoundKind = 'FOOTSTEP' | 'ATTACK' | 'SHOT' | 'CLIMB' | 'BREAK' | 'BANG' | 'SEARCH' | 'SCREAM' | 'GROWL';
+
+export type SoundEvent = {
+  kind: SoundKind;
+  origin: Coordinate;
+  volume: number; // Intensity at the origin (already scaled by the tile's noiseCoefficient)
+  sourceUnitId?: string;
+};
+
+export type MovementModes = Record<string, NonNullable<UnitStatus['movementMode']>>; // Survivor id -> mode
+
+export type ReplayTurn = {
+  turn: number;
+  actions: Action[];
+  modes: MovementModes; // Survivors' movement modes when the turn ran (sneaking changes what the enemies hear)
+};
+
+export type ReplayFile = {
+  version: number;
+  seed: number;
+  map?: MapFile; // Hand-authored map the run started on (otherwise generated from seed)
+  turns: ReplayTurn[];
+};
+
+export type ReplayPlayback = {
+  file: ReplayFile;
+  cursor: number; // Index of the next turn to play
+  desyncs: number; // Turns whose regenerated queue differed from the recording
+};
+
+// Online lockstep game (see netplay.ts)
+export type NetworkSession = {
+  role: 'HOST' | 'CLIENT';
+  room: string;
+  clientId: string | null; // Assigned by the relay
+  status: 'CONNECTING' | 'LOBBY' | 'PLAYING' | 'CLOSED';
+  peers: string[]; // Other players in the room
+  controlledUnitIds: string[]; // Survivors this player gives orders to
+  submitted: boolean; // This turn's orders are in; waiting for the host to resolve it
+  desyncs: number; // Times this player's state drifted from the host's and was reloaded
+};
+
+// Hand-authored map (see mapFormat.ts)
+export type MapFileUnit = {
+  id: string;
+  type: UnitType;
+  faction?: Faction; // Defaults to the unit type
+  name?: string;
+  position: Coordinate;
+  facing?: Unit['facing'];
+  status?: Partial<UnitStatus>; // Overrides the defaults of the unit type
+  memory?: AIMemory; // Initial AI state (e.g. SLEEP, WANDER)
+  inventory?: Inventory; // Defaults to the unit type's starting kit
+  archetype?: EnemyArchetypeId; // Enemies: stats and behavior template (defaults to plain enemy stats)
+};
+
+export type MapFileTile = {
+  position: Coordinate;
+  metadata: Partial<TileMetadata>; // Overrides the defaults of the tile type
+};
+
+export type MapFileContainer = {
+  kind: ContainerKind;
+  position: Coordinate;
+  items?: ItemStack[]; // Hand-picked contents (default: empty)
+  searchCost?: number; // Defaults to the container kind's
+};
+
+export type MapFile = {
+  version: number;
+  name?: string;
+  description?: string;
+  legend?: Record<string, TileType>; // Character -> tile type, merged over the default legend
+  floors: string[][]; // ASCII layer per floor: one string per row (x), one character per column (y)
+  tiles?: MapFileTile[]; // Per-tile metadata tweaks
+  containers?: MapFileContainer[];
+  units: MapFileUnit[];
+};
+
+// Level editor document: the map exactly as it will be played
+export type EditorDocument = {
+  version: number;
+  name: string;
+  floor: FloorData;
+  units: Unit[];
+};
+
 export interface GameState {
   floor: FloorData;
   units: Record<string, Unit>;
@@ -82,21 +253,52 @@ export interface GameState {
   visibleTiles: Set<string>; // Coordinate "x,y"
   exploredTiles: Set<string>; // Coordinate "x,y"
   debugFow: boolean;
+  debugAi: boolean; // Print every enemy's behavior-tree trace when a turn is planned (UI only, not saved)
   damageEvents: DamageEvent[];
+  sounds: SoundEvent[]; // Sounds made during the last execution phase (what enemies hear next)
+  rngState: number; // Seeded RNG stream for AI decisions and action ids
+  turn: number;
+  turnLog: ReplayTurn[]; // Every executed actionQueue, in order
+  mapFile: MapFile | null; // Hand-authored map the game was started from (null = generated)
+  groundItems: GroundItem[]; // Items lying on tiles (dropped)
+  containers: Container[]; // Searchable stashes
+  targetingItemId: string | null; // Noise-maker waiting for a target tile (UI only, not saved)
+  isAttackTargeting: boolean; // Waiting for the enemy to attack (UI only, not saved)
+  lootSummary: LootSummary | null; // Result of the survivor's last finished search (UI only, not saved)
+  eventLog: LogEntry[]; // Notable events of the last few turns, oldest first (UI only, not saved)
+  replay: ReplayPlayback | null; // Active replay playback (not saved)
+  selectedUnitId: string | null; // Survivor being given orders (UI only, not saved)
+  network: NetworkSession | null; // Online game in progress (not saved)
 }
 
 export interface GameActions {
-  initGame: (seed?: number) => void;
+  initGame: (seed?: number, mapFile?: MapFile) => void;
+  loadGameState: (state: GameState) => void;
+  restoreAutosave: () => boolean;
   setPhase: (phase: 'DECISION' | 'EXECUTION') => void;
   updateTimer: (deltaTime: number) => void;
   addUnit: (unit: Unit) => void;
   updateUnitPosition: (unitId: string, position: Coordinate) => void;
   updateUnitStatus: (unitId: string, status: Partial<Unit['status']>) => void;
-  queueAction: (action: Action) => void;
-  cancelAction: () => void;
+  queueAction: (action: ActionRequest) => void;
+  cancelAction: (unitId: string) => void;
+  removeAction: (actionId: string) => void;
+  moveAction: (actionId: string, offset: 1 | -1) => void;
   clearActionQueue: () => void;
   toggleDebugFow: () => void;
-  applyDamage: (targetId: string, amount: number) => void;
+  toggleDebugAi: () => void;
+  addDamageEvent: (position: Coordinate, amount: number) => void;
   removeDamageEvent: (eventId: string) => void;
   toggleSneak: (unitId: string) => void;
+  setTargetingItem: (itemId: string | null) => void;
+  setAttackTargeting: (active: boolean) => void;
+  setLootSummary: (summary: LootSummary | null) => void;
+  addLogEntry: (kind: LogEntry['kind'], text: string) => void;
+  startReplay: (file: ReplayFile) => void;
+  stepReplay: () => void;
+  stopReplay: () => void;
+  selectUnit: (unitId: string) => void;
+  cycleSelection: (step?: 1 | -1) => void;
+  setNetworkSession: (session: NetworkSession | null) => void;
+  runTurn: (requests: ActionRequest[]) => void;
 }
@@ -0,0 +1,7 @@
+import type { MapFile } from '../core/types';
+import { readMapFile } from '../core/mapFormat';
+
+// Scenarios shipped with the game: every *.json map file in this folder
+const modules = import.meta.glob('./*.json', { eager: true, import: 'default' });
+
+export const BUNDLED_MAPS: MapFile[] = Object.values(modules).map(readMapFile);